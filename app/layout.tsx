@@ -31,9 +31,11 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <Navbar />
-        <Toaster />
-        <WalletProvider>  {children} </WalletProvider>
+        <WalletProvider>
+          <Navbar />
+          <Toaster />
+          {children}
+        </WalletProvider>
       </body>
     </html>
   );
@@ -13,7 +13,7 @@ import {
   FileCode,
 } from 'lucide-react';
 import { SendSupraTokens } from '@/components/SendSupraTokens';
-import useSupraMultiWallet from '@/hooks/useSupraMultiWallet';
+import { useAccount } from '@/components/WalletProvider';
 import Image from 'next/image';
 
 // GitHub repo stats interface
@@ -24,7 +24,7 @@ interface GitHubStats {
 }
 
 export default function Home() {
-  const { accounts } = useSupraMultiWallet();
+  const { isConnected } = useAccount();
   const [githubStats, setGithubStats] = useState<GitHubStats>({
     stars: 0,
     forks: 0,
@@ -164,7 +164,7 @@ export default function Home() {
                 </p>
                 
                 {/* Blur overlay when not connected */}
-                {!accounts.length && (
+                {!isConnected && (
                   <div className="absolute inset-0 bg-gray-900/80 backdrop-blur-sm rounded-lg flex items-center justify-center z-10">
                     <p className="text-center text-gray-300 px-6">
                       Connect your wallet first to send tokens to another user
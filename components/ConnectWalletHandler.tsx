@@ -13,8 +13,8 @@ import {
 } from 'lucide-react';
 import { WalletType } from '@/hooks/useSupraMultiWallet';
 import useSupraMultiWallet from '@/hooks/useSupraMultiWallet';
-import starkeyIcon from '@/public/walletIcons/Starkey.png';
-import ribbitIcon from '@/public/walletIcons/Ribbit.jpg';
+import { getWalletAdapter, isWalletType } from '@/lib/walletRegistry';
+import type { WalletStatus } from '@/lib/walletStatus';
 import logo from '@/public/main/icon.png';
 
 
@@ -51,32 +51,51 @@ export interface ConnectWalletHandlerProps {
   }) => React.ReactNode;
 }
 
-// Wallet configuration
-const WALLET_INFO = {
-  starkey: {
-    name: 'Starkey Wallet',
-    icon: (
-      <img
-        src={starkeyIcon.src}
-        alt="Starkey Wallet"
-        className="w-10 h-10 rounded-full"
-      />
-    ),
-    downloadUrl:
-      'https://chromewebstore.google.com/detail/starkey-wallet-the-offici/hcjhpkgbmechpabifbggldplacolbkoh',
-  },
-  ribbit: {
-    name: 'Ribbit Wallet',
-    icon: (
+type ConnectionStage = 'idle' | 'connecting' | 'signing' | 'success' | 'error' | 'connected-not-signed';
+
+// Modal view of the wallet status while the user connects the selected wallet
+const getConnectionStage = (
+  status: WalletStatus,
+  selectedWallet: WalletType | null
+): ConnectionStage => {
+  if (!selectedWallet) return 'idle';
+
+  switch (status.state) {
+    case 'connecting':
+      return 'connecting';
+    case 'connected':
+    case 'authenticating':
+      return 'signing';
+    case 'authenticated':
+      return 'success';
+    case 'error':
+      // The wallet connected but the sign-in didn't go through
+      return status.account ? 'connected-not-signed' : 'error';
+    default:
+      return 'idle';
+  }
+};
+
+// Wallet display info, read from the registered adapter
+const getWalletInfo = (walletType: WalletType) => {
+  const adapter = getWalletAdapter(walletType);
+  return {
+    name: adapter.name,
+    // Adapters without an icon (e.g. the mock wallet) get their initial instead
+    icon: adapter.icon ? (
       <img
-        src={ribbitIcon.src}
-        alt="Ribbit Wallet"
+        src={adapter.icon}
+        alt={adapter.name}
         className="w-10 h-10 rounded-full"
       />
+    ) : (
+      <div className="w-10 h-10 rounded-full bg-gray-800 text-white flex items-center justify-center font-medium">
+        {adapter.name.charAt(0)}
+      </div>
     ),
-    downloadUrl: 'https://ribbitwallet.com',
-  },
-} as const;
+    downloadUrl: adapter.downloadUrl,
+  };
+};
 
 export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
   onConnect,
@@ -87,10 +106,9 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
   const starKeyWalletHook = useSupraMultiWallet();
 
   // State
-  const [loading, setLoading] = useState<boolean>(false);
+  const [disconnecting, setDisconnecting] = useState<boolean>(false);
   const [showWalletModal, setShowWalletModal] = useState(false);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [walletBalance, setWalletBalance] = useState<string>('0.00');
   const [availableWallets, setAvailableWallets] = useState<
     Array<{
       type: WalletType;
@@ -102,12 +120,12 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
   const [recentWallet, setRecentWallet] = useState<WalletType | null>(null);
   const [selectedWallet, setSelectedWallet] = useState<WalletType | null>(null);
   const [hoveredWallet, setHoveredWallet] = useState<WalletType | null>(null);
-  const [connectionStage, setConnectionStage] = useState<
-    'idle' | 'connecting' | 'signing' | 'success' | 'error' | 'connected-not-signed'
-  >('idle');
   const [connectionStageStartTime, setConnectionStageStartTime] = useState<number | null>(null);
   const [canClickOutside, setCanClickOutside] = useState(false);
 
+  const connecting = starKeyWalletHook.loading;
+  const connectionStage = getConnectionStage(starKeyWalletHook.status, selectedWallet);
+
   // Cache helper function
   const getProfileFromCache = (): ProfileCache | null => {
     try {
@@ -134,36 +152,11 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
     }
   };
 
-  // Balance update function
+  // Balance update function, refreshes the shared wallet store
   const updateWalletBalance = async () => {
-    const provider = starKeyWalletHook.getCurrentProvider();
     try {
       await new Promise((resolve) => setTimeout(resolve, 1));
-
-      switch (starKeyWalletHook.selectedWallet) {
-        case 'starkey': {
-          const balance = await provider.balance();
-          if (balance && balance.formattedBalance) {
-            setWalletBalance(balance.formattedBalance);
-          }
-          break;
-        }
-        case 'ribbit': {
-          const walletBalanceRequest = {
-            chainId: parseInt(process.env.NEXT_PUBLIC_SUPRA_CHAIN_ID || '6'),
-            resourceType: '0x1::supra_coin::SupraCoin',
-            decimals: 8,
-          };
-          const balance = await provider.getWalletBalance(walletBalanceRequest);
-          const balanceStr = balance.balance;
-          console.log("balance.balance", balanceStr, "balance", balance);
-          const numericBalance = balanceStr;
-          if (numericBalance) {
-            setWalletBalance(numericBalance);
-          }
-          break;
-        }
-      }
+      await starKeyWalletHook.updateBalance();
     } catch (error) {
       console.error('Error updating balance:', error);
     }
@@ -172,9 +165,7 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
   // Connect wallet function
   const connectWallet = async (walletType?: WalletType) => {
     if (walletType) {
-      setLoading(true);
       setSelectedWallet(walletType);
-      setConnectionStage('connecting');
       try {
         const success = await starKeyWalletHook.connectWallet(walletType);
         if (success) {
@@ -186,9 +177,7 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
         }
       } catch (error) {
         console.error('Failed to connect wallet:', error);
-        setConnectionStage('idle');
-      } finally {
-        setLoading(false);
+        setSelectedWallet(null);
       }
     } else {
       handleConnectClick();
@@ -211,22 +200,21 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
 
   // Disconnect wallet function
   const handleDisconnectWallet = async () => {
-    setLoading(true);
+    setDisconnecting(true);
     try {
       await starKeyWalletHook.disconnectWallet();
       setUserProfile(null);
-      setWalletBalance('0.00');
       onDisconnect?.();
     } catch (error) {
       console.error('Failed to disconnect wallet:', error);
     } finally {
-      setLoading(false);
+      setDisconnecting(false);
     }
   };
 
   // Get connection stage info
   const getConnectionStageInfo = () => {
-    const wallet = selectedWallet ? WALLET_INFO[selectedWallet] : null;
+    const wallet = selectedWallet ? getWalletInfo(selectedWallet) : null;
 
     switch (connectionStage) {
       case 'connecting':
@@ -267,8 +255,8 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
 
   // Load recent wallet on mount
   useEffect(() => {
-    const recent = localStorage.getItem(RECENT_WALLET_KEY) as WalletType;
-    if (recent && ['starkey', 'ribbit'].includes(recent)) {
+    const recent = localStorage.getItem(RECENT_WALLET_KEY);
+    if (isWalletType(recent)) {
       setRecentWallet(recent);
     }
   }, []);
@@ -290,39 +278,29 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
     };
   }, []);
 
-  // Update balance when wallet connects
+  // Close the modal a moment after the connection finishes
   useEffect(() => {
-    if (starKeyWalletHook.accounts.length > 0) {
-      updateWalletBalance();
+    if (connectionStage === 'success') {
+      const timer = setTimeout(() => {
+        setShowWalletModal(false);
+        setSelectedWallet(null);
+        updateWalletBalance();
+      }, 2500);
+      return () => clearTimeout(timer);
     }
-  }, [starKeyWalletHook.accounts, starKeyWalletHook.selectedWallet]);
 
-  // Listen for wallet events
-  useEffect(() => {
-    const handlePresignedState = () => {setConnectionStage( () => 'signing'); };
-    const handlePostsignedState = () => {
-      setConnectionStage('success');
-      setTimeout(() => {
-        setConnectionStage('idle');
+    if (connectionStage === 'error' || connectionStage === 'connected-not-signed') {
+      const timer = setTimeout(() => {
         setShowWalletModal(false);
-        updateWalletBalance();
+        setSelectedWallet(null);
+        starKeyWalletHook.dismissError();
       }, 2500);
-    };
-    const handleWalletError = () => {
-        if(connectionStage == "signing") {
-          setConnectionStage(() => 'connected-not-signed');
-        } else {
-          setConnectionStage(() => 'error');
-        }
-    
-        setTimeout(() => {
-          setShowWalletModal(false);
-          setSelectedWallet(null);
-          setConnectionStage('idle');
-          setLoading(false);
-        }, 2500);
-      };
+      return () => clearTimeout(timer);
+    }
+  }, [connectionStage]);
 
+  // Listen for wallet events
+  useEffect(() => {
     const handleStarkeyEvents = (event: any) => {
       if (event?.data?.name?.startsWith('starkey-')) {
         switch (event?.data?.name) {
@@ -330,25 +308,16 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
           case 'starkey-wallet-connected':
             setTimeout(updateWalletBalance, 1);
             break;
-          case 'starkey-wallet-disconnected':
-            setWalletBalance('0.00');
-            break;
         }
       }
     };
 
-    window.addEventListener('presigned-state', handlePresignedState);
-    window.addEventListener('postsigned-state', handlePostsignedState);
-    window.addEventListener('wallet-error', handleWalletError);
     window.addEventListener('message', handleStarkeyEvents);
 
     return () => {
-      window.removeEventListener('presigned-state', handlePresignedState);
-      window.removeEventListener('postsigned-state', handlePostsignedState);
-      window.removeEventListener('wallet-error', handleWalletError);
       window.removeEventListener('message', handleStarkeyEvents);
     };
-  }, [connectionStage]);
+  }, []);
 
   // Listen for profile updates
   useEffect(() => {
@@ -365,14 +334,6 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
     };
   }, [starKeyWalletHook.accounts]);
 
-  // Periodic balance refresh
-  useEffect(() => {
-    if (starKeyWalletHook.accounts.length > 0) {
-      const balanceInterval = setInterval(updateWalletBalance, 30000);
-      return () => clearInterval(balanceInterval);
-    }
-  }, [starKeyWalletHook.accounts]);
-
   // Track connection stage timing
   useEffect(() => {
     if (connectionStage === 'connecting' || connectionStage === 'signing') {
@@ -404,12 +365,13 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
         (canClickOutside && (connectionStage === 'connecting' || connectionStage === 'signing'))
       ) {
         setShowWalletModal(false);
-        setSelectedWallet(null);
-        setLoading(false);
         setCanClickOutside(false);
         setConnectionStageStartTime(null);
         setTimeout(() => {
-          setConnectionStage('idle');
+          setSelectedWallet(null);
+          if (connectionStage === 'error' || connectionStage === 'connected-not-signed') {
+            starKeyWalletHook.dismissError();
+          }
         }, 100);
       }
     }
@@ -420,8 +382,8 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
       {children({
         isConnected: starKeyWalletHook.accounts.length > 0,
         accounts: starKeyWalletHook.accounts,
-        loading: loading || starKeyWalletHook.loading,
-        balance: walletBalance,
+        loading: disconnecting || connecting,
+        balance: starKeyWalletHook.balance,
         userProfile,
         handleConnect: handleConnectClick,
         handleDisconnect: handleDisconnectWallet,
@@ -467,20 +429,20 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
                             onClick={() =>
                               wallet.isInstalled
                                 ? connectWallet(wallet.type)
-                                : window.open(WALLET_INFO[wallet.type].downloadUrl, '_blank')
+                                : window.open(getWalletInfo(wallet.type).downloadUrl, '_blank')
                             }
-                            disabled={loading && wallet.isInstalled}
+                            disabled={connecting && wallet.isInstalled}
                             onMouseEnter={() => setHoveredWallet(wallet.type)}
                             onMouseLeave={() => setHoveredWallet(null)}
                             className="w-full px-4 py-2 rounded-2xl border border-gray-950/60 hover:border-gray-800/80 bg-gray-950/20 hover:bg-gray-900/40 transition-all duration-300 flex items-center gap-4 group"
                           >
                             <div className="flex-shrink-0">
-                              {WALLET_INFO[wallet.type].icon}
+                              {getWalletInfo(wallet.type).icon}
                             </div>
 
                             <div className="flex-1 text-left">
                               <h3 className="font-medium text-white">
-                                {WALLET_INFO[wallet.type].name}
+                                {getWalletInfo(wallet.type).name}
                               </h3>
                               {!wallet.isInstalled && (
                                 <p className="text-sm text-gray-400">
@@ -495,7 +457,7 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
                                   Recent
                                 </span>
                               ) : wallet.isInstalled ? (
-                                loading && wallet.type === selectedWallet ? (
+                                connecting && wallet.type === selectedWallet ? (
                                   <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
                                 ) : (
                                   hoveredWallet === wallet.type && (
@@ -537,7 +499,7 @@ export const ConnectWalletHandler: React.FC<ConnectWalletHandlerProps> = ({
               <div className="w-full text-center py-8">
                 {(() => {
                   const stageInfo = getConnectionStageInfo();
-                  const wallet = selectedWallet ? WALLET_INFO[selectedWallet] : null;
+                  const wallet = selectedWallet ? getWalletInfo(selectedWallet) : null;
 
                   return (
                     <>
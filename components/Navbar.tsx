@@ -7,10 +7,34 @@ import { Loader2, Menu, X, Wallet, LogOut, Shield } from 'lucide-react';
 import ConnectWalletHandler from './ConnectWalletHandler';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { useNetwork } from './WalletProvider';
+import { isNetworkId } from '@/lib/networks';
+import { getNativeToken } from '@/lib/tokenRegistry';
 
 const Navbar = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const router = useRouter();
+  const { network, networks, setNetwork } = useNetwork();
+
+  const networkSelect = (className: string) => (
+    <select
+      aria-label="Network"
+      value={network.id}
+      onChange={(e) => {
+        if (isNetworkId(e.target.value)) {
+          setNetwork(e.target.value);
+        }
+      }}
+      className={className}
+    >
+      {networks.map((option) => (
+        <option key={option.id} value={option.id}>
+          {option.name}
+        </option>
+      ))}
+    </select>
+  );
+
   return (
     <ConnectWalletHandler>
       {({ isConnected, accounts, loading, balance, handleConnect, handleDisconnect }) => (
@@ -32,6 +56,7 @@ const Navbar = () => {
 
               {/* Desktop: Wallet Info & Connect Button */}
               <div className="hidden md:flex items-center gap-4">
+                {networkSelect('bg-gray-800/50 border border-gray-700 text-sm text-white rounded-lg px-3 py-2')}
                 {isConnected && (
                   <>
                     <Link href={`/protected/${accounts[0]}`}>
@@ -50,7 +75,7 @@ const Navbar = () => {
                       <div className="text-right">
                         <p className="text-xs text-gray-400">Balance</p>
                         <p className="text-sm font-semibold text-white">
-                          {parseFloat(balance || '0').toFixed(2)} SUPRA
+                          {balance || `0.00 ${getNativeToken(network).symbol}`}
                         </p>
                       </div>
                       <div className="h-8 w-px bg-gray-700"></div>
@@ -132,13 +157,14 @@ const Navbar = () => {
                 className="md:hidden border-t border-gray-800 bg-gray-900"
               >
                 <div className="px-4 py-4 space-y-4">
+                  {networkSelect('w-full bg-gray-800/50 border border-gray-700 text-sm text-white rounded-lg px-3 py-3')}
                   {isConnected && (
                     <>
                       <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700 space-y-2">
                         <div>
                           <p className="text-xs text-gray-400 mb-1">Balance</p>
                           <p className="text-lg font-semibold text-white">
-                            {parseFloat(balance || '0').toFixed(2)} SUPRA
+                            {balance || `0.00 ${getNativeToken(network).symbol}`}
                           </p>
                         </div>
                         <div>
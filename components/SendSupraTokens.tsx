@@ -1,15 +1,26 @@
 "use client";
 
 import { Button } from '@/components/ui/button';
-import useMoveLangConversionUtils from '@/hooks/useConversionUtils';
 import useSupraMultiWallet from '@/hooks/useSupraMultiWallet';
-import { useState } from 'react';
+import useConversionUtils from '@/hooks/useConversionUtils';
+import { createSupraAccountClient } from '@/lib/clients/supra_account';
+import { getExplorerTxUrl } from '@/lib/networks';
+import { formatTokenAmount, getNativeToken } from '@/lib/tokenRegistry';
+import { useMemo, useState } from 'react';
 import { Loader2, Send, AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
 
 export function SendSupraTokens() {
     const supraMultiWallet = useSupraMultiWallet();
-    const moveUtils = useMoveLangConversionUtils();
+    const { network } = supraMultiWallet;
+    const token = useMemo(() => getNativeToken(network), [network]);
+    const { sendRawTransaction, callView } = supraMultiWallet;
+    // The hook returns a new object every render, the store's methods are stable
+    const supraAccount = useMemo(
+        () => createSupraAccountClient({ sendRawTransaction, callView }),
+        [sendRawTransaction, callView]
+    );
+    const { parseAmount, formatAmount } = useConversionUtils();
     const [formData, setFormData] = useState({
         receiverAddress: '',
         amount: ''
@@ -34,8 +45,17 @@ export function SendSupraTokens() {
             return;
         }
 
-        const amountNumber = parseFloat(formData.amount);
-        if (isNaN(amountNumber) || amountNumber <= 0) {
+        // Exact base units, too many decimals or more than u64 is rejected here
+        let amount: bigint;
+        try {
+            amount = parseAmount(formData.amount, token.decimals);
+        } catch (error) {
+            toast.error('Invalid Amount', {
+                description: error instanceof Error ? error.message : String(error)
+            });
+            return;
+        }
+        if (amount <= BigInt(0)) {
             toast.error('Invalid Amount', {
                 description: 'Please enter a valid amount greater than 0'
             });
@@ -45,43 +65,23 @@ export function SendSupraTokens() {
         setIsSubmitting(true);
 
     try {
-            // Serialize transaction arguments using ABI-based serialization
-            // const serializedArgs = await moveUtils.serializeTransactionArgs(
-            //     [
-            //     formData.receiverAddress, // Raw address string
-            //     Number(formData.amount) * 100_000_000, // Raw number (will be converted to u64)
-            //     ],
-            //     "0x0000000000000000000000000000000000000000000000000000000000000001",
-            //     "supra_account",
-            //     "transfer_coins"
-            // );
-
-            // const txHash = await supraMultiWallet.sendRawTransaction(
-            //     "0x0000000000000000000000000000000000000000000000000000000000000001",
-            //     "supra_account",
-            //     "transfer_coins",
-            //     serializedArgs,
-            //     ["0x1::supra_coin::SupraCoin"]
-            // );
-            
-            // DO NOT MODIFY - User's exact transaction parameters
-            const txHash = await supraMultiWallet.sendRawTransaction(
-                "0x0000000000000000000000000000000000000000000000000000000000000001",
-                "supra_account",
-                "transfer_coins",
-                [
-                    moveUtils.addressToUint8Array(formData.receiverAddress),
-                    moveUtils.serializeUint64(BigInt(Number(formData.amount) * 100_000_000))
-                ],
-                ["0x1::supra_coin::SupraCoin"]
-            );
-
-            toast.success('Transaction Sent!', {
-                description: `Successfully sent ${formData.amount} SUPRA`,
-                action: txHash ? {
-                    label: 'View TX',
-                    onClick: () => window.open(`https://testnet.suprascan.io/tx/${txHash}`, '_blank')
-                } : undefined
+            const txHash = await supraAccount.transferCoins({
+                typeArgs: [token.id],
+                to: formData.receiverAddress,
+                amount
+            });
+
+            if (!txHash) {
+                throw new Error('Wallet did not return a transaction hash');
+            }
+
+            const viewTx = {
+                label: 'View TX',
+                onClick: () => window.open(getExplorerTxUrl(network, txHash), '_blank')
+            };
+            const toastId = toast.loading('Transaction Submitted', {
+                description: 'Waiting for confirmation...',
+                action: viewTx
             });
 
             // Reset form
@@ -90,6 +90,29 @@ export function SendSupraTokens() {
                 amount: ''
             });
 
+            try {
+                const transaction = await supraMultiWallet.waitForTransaction(txHash, { timeout: 60000 });
+                if (transaction.status === 'executed') {
+                    toast.success('Transaction Confirmed', {
+                        id: toastId,
+                        description: `Successfully sent ${formatTokenAmount(amount, token)}`,
+                        action: viewTx
+                    });
+                } else {
+                    toast.error(transaction.status === 'expired' ? 'Transaction Expired' : 'Transaction Failed', {
+                        id: toastId,
+                        description: transaction.vmStatus || 'The transaction was not executed',
+                        action: viewTx
+                    });
+                }
+            } catch {
+                toast.warning('Transaction Pending', {
+                    id: toastId,
+                    description: 'Not confirmed yet, check the explorer for its status',
+                    action: viewTx
+                });
+            }
+
         } catch (error: any) {
             console.error('Transfer error:', error);
             toast.error('Transaction Failed', {
@@ -123,12 +146,12 @@ export function SendSupraTokens() {
 
             <div className="space-y-2">
                 <label htmlFor="amount" className="text-sm font-medium text-gray-200 block">
-                    Amount (SUPRA)
+                    Amount ({token.symbol})
                 </label>
                 <input
                     type="number"
                     id="amount"
-                    step="0.00000001"
+                    step={formatAmount(1, token.decimals)}
                     min="0"
                     value={formData.amount}
                     suppressHydrationWarning={true}
@@ -138,7 +161,9 @@ export function SendSupraTokens() {
                     disabled={isSubmitting}
                 />
                 <p className="text-xs text-gray-400">
-                    Enter the amount of SUPRA to send
+                    {supraMultiWallet.balance
+                        ? `Available: ${supraMultiWallet.balance}`
+                        : `Enter the amount of ${token.symbol} to send`}
                 </p>
             </div>
 
@@ -169,7 +194,7 @@ export function SendSupraTokens() {
                 ) : (
                     <>
                         <Send className="mr-2 h-4 w-4" />
-                        Send SUPRA
+                        Send {token.symbol}
                     </>
                 )}
             </Button>
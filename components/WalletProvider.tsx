@@ -1,41 +1,283 @@
 "use client"
 
-import React, { useState, useEffect, createContext, useContext } from 'react';
-import useSupraMultiWallet from '@/hooks/useSupraMultiWallet';
-import { WALLET_EVENTS } from '@/hooks/useSupraMultiWallet';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  WALLET_EVENTS,
+  walletStore,
+  type WalletState,
+  type WalletStore,
+} from '@/lib/walletStore';
+import { isWalletBusy } from '@/lib/walletStatus';
+import { getNetworks } from '@/lib/networks';
+import { getBalances, type AssetBalance } from '@/lib/balances';
+import {
+  downloadTransactions,
+  exportTransactions,
+  filterTransactions,
+  type TransactionExportFormat,
+  type TransactionHistoryFilter,
+} from '@/lib/transactionHistory';
+import {
+  describeTransaction,
+  type TransactionDescription,
+} from '@/lib/transactionDescriptions';
+import type { TrackedTransaction, TransactionStatus } from '@/lib/transactionTracker';
 
-// Create a context to hold the wallet state and a force update function
-const SupraContext = createContext<any>(null);
+// Holds the wallet store shared by everything below the provider
+export const WalletContext = createContext<WalletStore | null>(null);
 
-export function WalletProvider({ children }: { children: React.ReactNode }) {
-  const [forceUpdateKey, setForceUpdateKey] = useState(0);
-  const starkey = useSupraMultiWallet();
-  // Listen for wallet connection events
+export function WalletProvider({
+  children,
+  store = walletStore,
+}: {
+  children: React.ReactNode;
+  store?: WalletStore;
+}) {
+  const router = useRouter();
+
+  // Wallet detection, wallet events and token revalidation live as long as the provider
+  useEffect(() => store.mount(), [store]);
+
+  // Send the user home when the session ends
   useEffect(() => {
-    const handleWalletConnected = () => {
-        if(starkey.accounts[0] == null) {
-            // Force a re-render of the component tree
-            setForceUpdateKey(prev => prev + 1);
-        }
-    };
-    
-    window.addEventListener(WALLET_EVENTS.CONNECTED, handleWalletConnected);
-    
+    const handleDisconnected = () => router.push('/');
+
+    window.addEventListener(WALLET_EVENTS.DISCONNECTED, handleDisconnected);
     return () => {
-      window.removeEventListener(WALLET_EVENTS.CONNECTED, handleWalletConnected);
+      window.removeEventListener(WALLET_EVENTS.DISCONNECTED, handleDisconnected);
     };
-  }, []);
-  
-  // The key prop forces the component to re-mount when the wallet connects
+  }, [router]);
+
   return (
-    <SupraContext.Provider value={null} key={forceUpdateKey}>
+    <WalletContext.Provider value={store}>
       {children}
-    </SupraContext.Provider>
+    </WalletContext.Provider>
+  );
+}
+
+export function useWalletStore(): WalletStore {
+  const store = useContext(WalletContext);
+  if (!store) {
+    throw new Error('useWalletStore must be used within a WalletProvider');
+  }
+  return store;
+}
+
+// Subscribes to a slice of the wallet state. Selectors must return stable
+// references (e.g. `state.accounts`), derive objects with useMemo instead.
+export function useWalletSelector<T>(selector: (state: WalletState) => T): T {
+  const store = useWalletStore();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => selector(store.getSnapshot()),
+    () => selector(store.getServerSnapshot())
+  );
+}
+
+export function useAccount() {
+  const accounts = useWalletSelector((state) => state.accounts);
+  const selectedWallet = useWalletSelector((state) => state.selectedWallet);
+  const status = useWalletSelector((state) => state.status);
+
+  return useMemo(
+    () => ({
+      address: accounts[0] as string | undefined,
+      accounts,
+      isConnected: accounts.length > 0,
+      isAuthenticated: status.state === 'authenticated',
+      selectedWallet,
+      status,
+      loading: isWalletBusy(status),
+    }),
+    [accounts, selectedWallet, status]
+  );
+}
+
+export function useBalance() {
+  const store = useWalletStore();
+  const balance = useWalletSelector((state) => state.balance);
+  const coinBalance = useWalletSelector((state) => state.coinBalance);
+
+  return useMemo(
+    () => ({
+      balance,
+      coinBalance,
+      refresh: () => store.updateBalance(),
+    }),
+    [balance, coinBalance, store]
+  );
+}
+
+// Every coin and fungible asset the connected account holds, reloaded when the
+// account or network changes, after the account's transactions settle and on
+// the store's slow poll while the tab is visible
+export function useBalances({ fungibleAssets = [] }: { fungibleAssets?: string[] } = {}) {
+  const store = useWalletStore();
+  const address = useWalletSelector((state) => state.accounts[0]);
+  const network = useWalletSelector((state) => state.network);
+  const assets = fungibleAssets.join(',');
+  const [balances, setBalances] = useState<AssetBalance[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+
+  // Account and network changes already reload through the effect below
+  useEffect(
+    () =>
+      store.subscribeBalance((reason) => {
+        if (reason !== 'account' && reason !== 'network') {
+          setReloads((count) => count + 1);
+        }
+      }),
+    [store]
+  );
+
+  useEffect(() => {
+    if (!address) {
+      setBalances([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    getBalances(address, {
+      network,
+      fungibleAssets: assets ? assets.split(',') : [],
+      client: store.getClient(network),
+    })
+      .then((result) => {
+        if (cancelled) return;
+        setBalances(result);
+        setError(null);
+      })
+      .catch((loadError) => {
+        if (cancelled) return;
+        console.error('Error loading balances:', loadError);
+        setError(loadError instanceof Error ? loadError.message : String(loadError));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, network, assets, reloads, store]);
+
+  const refresh = useCallback(() => setReloads((count) => count + 1), []);
+
+  return useMemo(
+    () => ({ balances, loading, error, refresh }),
+    [balances, loading, error, refresh]
+  );
+}
+
+export function useNetwork() {
+  const store = useWalletStore();
+  const network = useWalletSelector((state) => state.network);
+  const networkData = useWalletSelector((state) => state.networkData);
+  const selectedChainId = useWalletSelector((state) => state.selectedChainId);
+
+  return useMemo(
+    () => ({
+      // Network selected in the app
+      network,
+      networks: getNetworks(),
+      setNetwork: store.setNetwork,
+      // Network reported by the wallet
+      networkData,
+      chainId: networkData.chainId,
+      selectedChainId,
+      setSelectedChainId: store.setSelectedChainId,
+      switchToChain: store.switchToChain,
+    }),
+    [network, networkData, selectedChainId, store]
+  );
+}
+
+// Descriptions of the transactions by hash, with token symbols and amounts from
+// the registry. Filled in once their tokens resolve
+export function useTransactionDescriptions(transactions: TrackedTransaction[]) {
+  const store = useWalletStore();
+  const network = useWalletSelector((state) => state.network);
+  const [descriptions, setDescriptions] = useState<Record<string, TransactionDescription>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      transactions.map(
+        async (txn) =>
+          [txn.hash, await describeTransaction(txn, network, store.getClient(network))] as const
+      )
+    ).then((entries) => {
+      if (!cancelled) setDescriptions(Object.fromEntries(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [transactions, network, store]);
+
+  return descriptions;
+}
+
+// Transaction history of the connected account, optionally filtered
+export function useTransactions(filter: TransactionHistoryFilter = {}) {
+  const store = useWalletStore();
+  const transactions = useWalletSelector((state) => state.transactions);
+  const statuses = filter.status === undefined ? '' : ([] as string[]).concat(filter.status).join(',');
+  const fn = filter.function;
+
+  const filtered = useMemo(
+    () =>
+      filterTransactions(transactions, {
+        status: statuses ? (statuses.split(',') as TransactionStatus[]) : undefined,
+        function: fn,
+      }),
+    [transactions, statuses, fn]
+  );
+  const descriptions = useTransactionDescriptions(filtered);
+
+  return useMemo(
+    () => ({
+      transactions: filtered,
+      descriptions,
+      refresh: store.refreshTransactionHistory,
+      exportTransactions: (format: TransactionExportFormat) =>
+        exportTransactions(filtered, format, descriptions),
+      downloadTransactions: (format: TransactionExportFormat) =>
+        downloadTransactions(filtered, format, undefined, descriptions),
+    }),
+    [filtered, descriptions, store]
   );
 }
 
-// Custom hook that combines the StarkeyProvider with useStarkeyWallet
-export function useSupraMultiWalletWithRefresh() {
-  const starkey = useSupraMultiWallet();
-  return starkey;
-} 
\ No newline at end of file
+export function useWalletActions() {
+  const store = useWalletStore();
+
+  return useMemo(
+    () => ({
+      connectWallet: store.connectWallet,
+      disconnectWallet: store.disconnectWallet,
+      dismissError: store.dismissError,
+      sendRawTransaction: store.sendRawTransaction,
+      simulateTransaction: store.simulateTransaction,
+      callView: store.callView,
+      waitForTransaction: store.waitForTransaction,
+      signMessage: store.signMessage,
+      signIn: store.signIn,
+      authFetch: store.authFetch,
+      checkAndRevalidateToken: store.checkAndRevalidateToken,
+      getAvailableWallets: store.getAvailableWallets,
+    }),
+    [store]
+  );
+}
@@ -1,6 +1,28 @@
 import { useCallback } from 'react';
 import { BCS, HexString, TxnBuilderTypes } from 'supra-l1-sdk-core';
-import { getStoredABI, type ModuleABI } from '@/lib/abiStorage';
+import { fetchModuleABI as fetchABI, type ModuleABI } from '@/lib/abiStorage';
+import {
+    formatAmount as formatBaseUnits,
+    parseAmount as parseBaseUnits,
+    type FormatAmountOptions,
+    type ParseAmountOptions,
+} from '@/lib/amounts';
+import { createSupraRpcClient, getRpcClient } from '@/lib/supraRpcClient';
+import {
+    deserializeValueByType as deserializeValue,
+    getCallerParamTypes,
+    loadStructABIs,
+    resolveParamTypes,
+    serializeArgsFromTypes as serializeArgs,
+    serializeEntryFunctionArgs,
+    serializeValueByType as serializeValue,
+    serializeValueInto,
+} from '@/lib/moveSerialization';
+
+// Shared client for the active network, or one for a custom RPC URL. ABIs fetched
+// through a custom URL are cached apart from the network's own
+const getClient = (rpcUrl?: string) =>
+    rpcUrl ? createSupraRpcClient({ endpoints: [rpcUrl] }) : getRpcClient();
 
 const useConversionUtils = () => {
     // Convert a human-readable string to Uint8Array
@@ -172,259 +194,39 @@ const useConversionUtils = () => {
 
     // ========== ABI-Based Serialization ==========
 
-    // Serializes a single value based on its Move type
+    // Serializes a single value based on its Move type, structs are resolved from `abis`
     const serializeValueByType = useCallback(
-        (value: any, type: string, serializer?: BCS.Serializer): Uint8Array => {
-            const ser = serializer || new BCS.Serializer();
-            const shouldReturnBytes = !serializer; // Only return bytes if we created the serializer
-
-            // Handle Option<T>
-            if (type.startsWith('0x1::option::Option<')) {
-                if (value === null || value === undefined) {
-                    ser.serializeU8(0);
-                } else {
-                    ser.serializeU8(1);
-                    const innerType = type.slice(21, -1); // Remove "0x1::option::Option<" and ">"
-                    serializeValueByType(value, innerType, ser);
-                }
-                return shouldReturnBytes ? ser.getBytes() : new Uint8Array(0);
-            }
-
-            // Handle vector<T>
-            if (type.startsWith('vector<')) {
-                // Use regex to extract inner type (handles nested vectors better)
-                const vectorMatch = type.match(/vector<(.+)>$/);
-                if (!vectorMatch) {
-                    throw new Error(`Invalid vector type format: ${type}`);
-                }
-                const innerType = vectorMatch[1];
-
-                // Special handling for vector<u8> - accepts string, Uint8Array, or number[]
-                if (innerType === 'u8') {
-                    let bytes: Uint8Array;
-
-                    if (typeof value === 'string') {
-                        // Hex string - convert to Uint8Array
-                        const cleanHex = value.startsWith('0x') ? value.slice(2) : value;
-                        bytes = new Uint8Array(
-                            cleanHex.match(/.{1,2}/g)?.map((byte) => parseInt(byte, 16)) || []
-                        );
-                    } else if (value instanceof Uint8Array) {
-                        // Uint8Array - use directly
-                        bytes = value;
-                    } else if (Array.isArray(value)) {
-                        // Number array - convert to Uint8Array
-                        bytes = new Uint8Array(
-                            value.map((item) => {
-                                const u8 = typeof item === 'string' ? parseInt(item, 10) : item;
-                                if (u8 < 0 || u8 > 255) {
-                                    throw new Error(`u8 value out of range in vector: ${u8}`);
-                                }
-                                return u8;
-                            })
-                        );
-                    } else {
-                        throw new Error(
-                            `Expected string, Uint8Array, or number[] for vector<u8>, got ${typeof value}`
-                        );
-                    }
-
-                    // Serialize vector<u8> as length + bytes
-                    ser.serializeU32AsUleb128(bytes.length);
-                    for (let i = 0; i < bytes.length; i++) {
-                        ser.serializeU8(bytes[i]);
-                    }
-                } else {
-                    // Regular vector handling
-                    if (!Array.isArray(value)) {
-                        throw new Error(
-                            `Expected array for vector<${innerType}>, got ${typeof value}`
-                        );
-                    }
-                    ser.serializeU32AsUleb128(value.length);
-                    for (const item of value) {
-                        serializeValueByType(item, innerType, ser);
-                    }
-                }
-                return shouldReturnBytes ? ser.getBytes() : new Uint8Array(0);
-            }
-
-            // Handle 0x1::object::Object<T> - treat as address
-            if (type.startsWith('0x1::object::Object')) {
-                if (typeof value !== 'string') {
-                    throw new Error(`Expected string for Object, got ${typeof value}`);
-                }
-                const objectAddress = TxnBuilderTypes.AccountAddress.fromHex(value);
-                ser.serializeFixedBytes(objectAddress.address);
-                return shouldReturnBytes ? ser.getBytes() : new Uint8Array(0);
-            }
-
-            // Handle primitive types
-            switch (type) {
-                case 'address':
-                    if (typeof value !== 'string') {
-                        throw new Error(`Expected string for address, got ${typeof value}`);
-                    }
-                    const accountAddress = TxnBuilderTypes.AccountAddress.fromHex(value);
-                    ser.serializeFixedBytes(accountAddress.address);
-                    break;
-
-                case 'u8':
-                    const u8 = typeof value === 'string' ? parseInt(value, 10) : value;
-                    if (u8 < 0 || u8 > 255) {
-                        throw new Error(`u8 value out of range: ${u8}`);
-                    }
-                    ser.serializeU8(u8);
-                    break;
-
-                case 'u16':
-                    const u16 =
-                        typeof value === 'string'
-                            ? parseInt(value, 10)
-                            : typeof value === 'bigint'
-                              ? Number(value)
-                              : value;
-                    if (u16 < 0 || u16 > 65535) {
-                        throw new Error(`u16 value out of range: ${u16}`);
-                    }
-                    ser.serializeU16(u16);
-                    break;
-
-                case 'u32':
-                    const u32 =
-                        typeof value === 'string'
-                            ? parseInt(value, 10)
-                            : typeof value === 'bigint'
-                              ? Number(value)
-                              : value;
-                    if (u32 < 0 || u32 > 4294967295) {
-                        throw new Error(`u32 value out of range: ${u32}`);
-                    }
-                    ser.serializeU32(u32);
-                    break;
-
-                case 'u64':
-                    const u64 =
-                        typeof value === 'string'
-                            ? BigInt(value)
-                            : typeof value === 'number'
-                              ? BigInt(value)
-                              : value;
-                    if (u64 < 0) {
-                        throw new Error(`u64 value cannot be negative: ${u64}`);
-                    }
-                    ser.serializeU64(u64);
-                    break;
-
-                case 'u128':
-                    const u128 =
-                        typeof value === 'string'
-                            ? BigInt(value)
-                            : typeof value === 'number'
-                              ? BigInt(value)
-                              : value;
-                    if (u128 < 0) {
-                        throw new Error(`u128 value cannot be negative: ${u128}`);
-                    }
-                    ser.serializeU128(u128);
-                    break;
-
-                case 'u256':
-                    if (typeof value !== 'bigint') {
-                        throw new Error(`Expected bigint for u256, got ${typeof value}`);
-                    }
-                    ser.serializeU256(value);
-                    break;
-
-                case 'bool':
-                    if (typeof value !== 'boolean') {
-                        throw new Error(`Expected boolean, got ${typeof value}`);
-                    }
-                    ser.serializeBool(value);
-                    break;
-                
-                case '0x1::string::String':
-                    if (typeof value !== 'string') {
-                        throw new Error(`Expected string, got ${typeof value}`);
-                    }
-                    ser.serializeStr(value);
-                    break;
-
-                default:
-                    throw new Error(`Unsupported type: ${type}`);
+        (value: any, type: string, serializer?: BCS.Serializer, abis?: ModuleABI[]): Uint8Array => {
+            if (serializer) {
+                serializeValueInto(serializer, value, type, abis);
+                return new Uint8Array(0);
             }
-
-            return shouldReturnBytes ? ser.getBytes() : new Uint8Array(0);
+            return serializeValue(value, type, abis);
         },
         []
     );
 
     // Serializes transaction arguments based on parameter types
     const serializeArgsFromTypes = useCallback(
-        (args: any[], paramTypes: string[]): Uint8Array[] => {
-            if (args.length !== paramTypes.length) {
-                throw new Error(
-                    `Argument count mismatch: expected ${paramTypes.length}, got ${args.length}`
-                );
-            }
-
-            return args.map((arg, index) => {
-                try {
-                    // Remove &signer from param types (first param is usually &signer)
-                    const paramType = paramTypes[index].replace('&signer', '').trim();
-                    return serializeValueByType(arg, paramType);
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : String(error);
-                    throw new Error(
-                        `Failed to serialize argument ${index} (${paramTypes[index]}): ${errorMessage}`
-                    );
-                }
-            });
-        },
-        [serializeValueByType]
+        (args: any[], paramTypes: string[], abis?: ModuleABI[]): Uint8Array[] =>
+            serializeArgs(args, paramTypes, abis),
+        []
     );
 
     const fetchModuleABI = useCallback(
-        async (moduleAddress: string, moduleName: string, rpcUrl?: string): Promise<ModuleABI> => {
-            const storedABI = getStoredABI(moduleAddress, moduleName);
-            if (storedABI) {
-              return storedABI;
-            }
-
-            const baseUrl =
-                rpcUrl ||
-                (process.env.NEXT_PUBLIC_SUPRA_CHAIN_ID === '8'
-                    ? 'https://rpc-mainnet.supra.com'
-                    : 'https://rpc-testnet.supra.com');
-
-            const url = `${baseUrl}/rpc/v3/accounts/${moduleAddress}/modules/${moduleName}`;
-
-            try {
-                const response = await fetch(url);
-                if (!response.ok) {
-                    throw new Error(`Failed to fetch ABI: ${response.statusText}`);
-                }
-                const data = await response.json();
-                return data.abi as ModuleABI;
-            } catch (error) {
-                console.error('Error fetching module ABI:', error);
-                throw new Error(
-                    `Failed to fetch module ABI: ${
-                        error instanceof Error ? error.message : String(error)
-                    }`
-                );
-            }
-        },
+        async (moduleAddress: string, moduleName: string, rpcUrl?: string): Promise<ModuleABI> =>
+            fetchABI(moduleAddress, moduleName, getClient(rpcUrl)),
         []
     );
 
-    // Extracts function parameter types from module ABI
+    // Extracts function parameter types from module ABI, with T0, T1... replaced when type args are given
     const getFunctionParamTypes = useCallback(
         async (
             moduleAddress: string,
             moduleName: string,
             functionName: string,
-            rpcUrl?: string
+            rpcUrl?: string,
+            typeArgs?: string[]
         ): Promise<string[]> => {
             const moduleABI = await fetchModuleABI(moduleAddress, moduleName, rpcUrl);
 
@@ -442,33 +244,55 @@ const useConversionUtils = () => {
 
             // Remove all `signer` and `&signer` from argument list because the Move VM injects those arguments. Clients do not
             // need to care about those args. `signer` and `&signer` are required be in the front of the argument list.
-            return functionDef.params.filter((param: string) => {
-                const trimmed = param.trim();
-                return trimmed !== 'signer' && trimmed !== '&signer';
-            });
+            return typeArgs
+                ? resolveParamTypes(functionDef, typeArgs)
+                : getCallerParamTypes(functionDef.params);
         },
         [fetchModuleABI]
     );
 
-    // Function to Fetch ABI and serialize arguments
+    // Function to Fetch ABI and serialize arguments. Pass the same type args as to
+    // sendRawTransaction so generic parameters (vector<T0>, ...) serialize correctly
     const serializeTransactionArgs = useCallback(
         async (
             args: any[],
             moduleAddress: string,
             moduleName: string,
             functionName: string,
-            rpcUrl?: string
+            rpcUrl?: string,
+            typeArgs?: string[]
         ): Promise<Uint8Array[]> => {
-            const paramTypes = await getFunctionParamTypes(
-                moduleAddress,
-                moduleName,
+            const moduleABI = await fetchModuleABI(moduleAddress, moduleName, rpcUrl);
+            return serializeEntryFunctionArgs(
+                moduleABI,
                 functionName,
-                rpcUrl
+                args,
+                typeArgs,
+                getClient(rpcUrl)
             );
-
-            return serializeArgsFromTypes(args, paramTypes);
         },
-        [getFunctionParamTypes, serializeArgsFromTypes]
+        [fetchModuleABI]
+    );
+
+    // Decodes BCS bytes of a Move type, fetching the ABIs of any structs in it first
+    const deserializeValueByType = useCallback(
+        async (bytes: Uint8Array | string, type: string, rpcUrl?: string): Promise<unknown> =>
+            deserializeValue(bytes, type, await loadStructABIs(type, getClient(rpcUrl))),
+        []
+    );
+
+    // Exact base units for a decimal string such as "1.5", throws AmountError when it can't be represented
+    const parseAmount = useCallback(
+        (input: string, decimals: number, options?: ParseAmountOptions): bigint =>
+            parseBaseUnits(input, decimals, options),
+        []
+    );
+
+    // Decimal string for base units, with optional rounding and thousands grouping
+    const formatAmount = useCallback(
+        (baseUnits: bigint | number | string, decimals: number, options?: FormatAmountOptions): string =>
+            formatBaseUnits(baseUnits, decimals, options),
+        []
     );
 
     return {
@@ -487,9 +311,13 @@ const useConversionUtils = () => {
         deserializeVector,
         hexToString,
         stringToHex,
+        // Coin amounts
+        parseAmount,
+        formatAmount,
         // ABI-based serialization
         serializeValueByType,
         serializeArgsFromTypes,
+        deserializeValueByType,
         fetchModuleABI,
         getFunctionParamTypes,
         serializeTransactionArgs, // Main function to use
@@ -0,0 +1,288 @@
+import type { ModuleABI } from './abiStorage';
+import { openDatabase, requestToPromise } from './indexedDB';
+import type { NetworkId } from './networks';
+import { getRpcClient, type SupraRpcClient } from './supraRpcClient';
+import { standardizeAddress } from './utils';
+
+// Bump when the shape of CachedABI changes, older entries are ignored
+export const ABI_CACHE_VERSION = 1;
+
+export interface CachedABI {
+  // network:address::module, network@endpoint:address::module for custom RPC URLs
+  key: string;
+  abi: ModuleABI;
+  fetchedAt: number;
+  // upgrade_number of the package holding the module, when the account has a PackageRegistry
+  upgradeNumber?: string;
+  version: number;
+}
+
+export interface ABICacheOptions {
+  // How long an entry is used before it's checked against the chain, in ms
+  ttl?: number;
+  dbName?: string;
+  // localStorage key prefix, used where IndexedDB isn't available
+  storageKey?: string;
+}
+
+// Persistent layer under the in-memory one
+interface ABICacheStore {
+  get(key: string): Promise<CachedABI | undefined>;
+  set(entry: CachedABI): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Removes every entry whose key starts with the prefix
+  deletePrefix(prefix: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface PackageRegistry {
+  packages: Array<{
+    name: string;
+    upgrade_number: string;
+    modules: Array<{ name: string }>;
+  }>;
+}
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+const DB_NAME = 'multiwallet-abis';
+const DB_VERSION = 1;
+const STORE_NAME = 'abis';
+const STORAGE_KEY = 'multiwallet.abi:';
+
+const createObjectStores = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORE_NAME)) {
+    db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+  }
+};
+
+const prefixRange = (prefix: string) => IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+
+const createIndexedDBStore = (database: Promise<IDBDatabase>): ABICacheStore => {
+  const getStore = async (mode: IDBTransactionMode) =>
+    (await database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    get: async (key) => requestToPromise<CachedABI | undefined>((await getStore('readonly')).get(key)),
+    set: async (entry) => {
+      await requestToPromise((await getStore('readwrite')).put(entry));
+    },
+    delete: async (key) => {
+      await requestToPromise((await getStore('readwrite')).delete(key));
+    },
+    deletePrefix: async (prefix) => {
+      await requestToPromise((await getStore('readwrite')).delete(prefixRange(prefix)));
+    },
+    clear: async () => {
+      await requestToPromise((await getStore('readwrite')).clear());
+    },
+  };
+};
+
+const createLocalStorageStore = (storageKey: string): ABICacheStore => {
+  const keys = (prefix: string) =>
+    Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index)).filter(
+      (key): key is string => !!key && key.startsWith(`${storageKey}${prefix}`)
+    );
+
+  return {
+    get: async (key) => {
+      const stored = localStorage.getItem(`${storageKey}${key}`);
+      return stored ? (JSON.parse(stored) as CachedABI) : undefined;
+    },
+    set: async (entry) => {
+      localStorage.setItem(`${storageKey}${entry.key}`, JSON.stringify(entry));
+    },
+    delete: async (key) => {
+      localStorage.removeItem(`${storageKey}${key}`);
+    },
+    deletePrefix: async (prefix) => {
+      keys(prefix).forEach((key) => localStorage.removeItem(key));
+    },
+    clear: async () => {
+      keys('').forEach((key) => localStorage.removeItem(key));
+    },
+  };
+};
+
+// IndexedDB, else localStorage, else nothing beyond memory (server)
+const createPersistentStore = (dbName: string, storageKey: string): ABICacheStore | null => {
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDBStore(openDatabase(dbName, DB_VERSION, createObjectStores));
+  }
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return createLocalStorageStore(storageKey);
+    }
+  } catch {
+    console.warn('localStorage not available, caching ABIs in memory');
+  }
+  return null;
+};
+
+// Network id, or network and endpoint for a client pointed at a URL the network doesn't list
+const cacheScope = ({ network, endpoints }: SupraRpcClient) => {
+  const networkUrls = network.rpcUrls.map((url) => url.replace(/\/+$/, ''));
+  return endpoints.every((url) => networkUrls.includes(url))
+    ? network.id
+    : `${network.id}@${endpoints.join(',')}`;
+};
+
+const addressPrefix = (scope: string, moduleAddress: string) =>
+  `${scope}:${standardizeAddress(moduleAddress)}::`;
+
+const cacheKey = (scope: string, moduleAddress: string, moduleName: string) =>
+  `${addressPrefix(scope, moduleAddress)}${moduleName}`;
+
+// upgrade_number of the package that holds the module, changes on every upgrade
+const getUpgradeNumber = async (
+  client: SupraRpcClient,
+  moduleAddress: string,
+  moduleName: string
+) => {
+  try {
+    const { data } = await client.getAccountResource<PackageRegistry>(
+      moduleAddress,
+      '0x1::code::PackageRegistry'
+    );
+    return data.packages
+      .find((pkg) => pkg.modules.some((module) => module.name === moduleName))
+      ?.upgrade_number?.toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Layered cache for module ABIs fetched from the RPC: memory, then IndexedDB
+ * (or localStorage), then the node. Entries are keyed by network (plus the
+ * endpoint for custom RPC URLs), address and module and live for `ttl`. An
+ * expired entry is kept if the package's upgrade number hasn't moved, and
+ * refetched otherwise. Concurrent lookups of the same module share one request.
+ */
+export function createABICache({
+  ttl = DEFAULT_TTL,
+  dbName = DB_NAME,
+  storageKey = STORAGE_KEY,
+}: ABICacheOptions = {}) {
+  const memory = new Map<string, CachedABI>();
+  const inFlight = new Map<string, Promise<ModuleABI>>();
+  let persistent: ABICacheStore | null | undefined;
+
+  const getPersistent = () => {
+    if (persistent === undefined) {
+      persistent = createPersistentStore(dbName, storageKey);
+    }
+    return persistent;
+  };
+
+  const isFresh = (entry: CachedABI) => Date.now() - entry.fetchedAt < ttl;
+
+  const readPersistent = async (key: string) => {
+    try {
+      const entry = await getPersistent()?.get(key);
+      return entry?.version === ABI_CACHE_VERSION ? entry : undefined;
+    } catch (error) {
+      console.warn('Error reading cached ABI:', error);
+      return undefined;
+    }
+  };
+
+  const store = async (entry: CachedABI) => {
+    memory.set(entry.key, entry);
+    try {
+      await getPersistent()?.set(entry);
+    } catch (error) {
+      console.warn('Error caching ABI:', error);
+    }
+  };
+
+  const load = async (
+    key: string,
+    moduleAddress: string,
+    moduleName: string,
+    client: SupraRpcClient
+  ): Promise<ModuleABI> => {
+    const cached = memory.get(key) ?? (await readPersistent(key));
+    if (cached && isFresh(cached)) {
+      memory.set(key, cached);
+      return cached.abi;
+    }
+
+    let checkedUpgradeNumber: string | undefined;
+    if (cached) {
+      // Expired: an unchanged upgrade number means the ABI is still current
+      checkedUpgradeNumber = await getUpgradeNumber(client, moduleAddress, moduleName);
+      if (checkedUpgradeNumber !== undefined && checkedUpgradeNumber === cached.upgradeNumber) {
+        await store({ ...cached, fetchedAt: Date.now() });
+        return cached.abi;
+      }
+    }
+
+    try {
+      const [{ abi }, upgradeNumber] = await Promise.all([
+        client.getAccountModule(moduleAddress, moduleName),
+        cached ? checkedUpgradeNumber : getUpgradeNumber(client, moduleAddress, moduleName),
+      ]);
+      await store({ key, abi, upgradeNumber, fetchedAt: Date.now(), version: ABI_CACHE_VERSION });
+      return abi;
+    } catch (error) {
+      if (!cached) throw error;
+      console.warn('Error refreshing module ABI, using cached copy:', error);
+      return cached.abi;
+    }
+  };
+
+  const get = (
+    moduleAddress: string,
+    moduleName: string,
+    client: SupraRpcClient = getRpcClient()
+  ): Promise<ModuleABI> => {
+    const key = cacheKey(cacheScope(client), moduleAddress, moduleName);
+    const cached = memory.get(key);
+    if (cached && isFresh(cached)) {
+      return Promise.resolve(cached.abi);
+    }
+
+    let lookup = inFlight.get(key);
+    if (!lookup) {
+      lookup = load(key, moduleAddress, moduleName, client).finally(() => inFlight.delete(key));
+      inFlight.set(key, lookup);
+    }
+    return lookup;
+  };
+
+  // Drops one module, or every module at the address when moduleName is left out
+  const invalidate = async (network: NetworkId, moduleAddress: string, moduleName?: string) => {
+    try {
+      if (moduleName) {
+        const key = cacheKey(network, moduleAddress, moduleName);
+        memory.delete(key);
+        await getPersistent()?.delete(key);
+      } else {
+        const prefix = addressPrefix(network, moduleAddress);
+        Array.from(memory.keys())
+          .filter((key) => key.startsWith(prefix))
+          .forEach((key) => memory.delete(key));
+        await getPersistent()?.deletePrefix(prefix);
+      }
+    } catch (error) {
+      console.warn('Error invalidating cached ABI:', error);
+    }
+  };
+
+  const clear = async () => {
+    memory.clear();
+    try {
+      await getPersistent()?.clear();
+    } catch (error) {
+      console.warn('Error clearing ABI cache:', error);
+    }
+  };
+
+  return { get, invalidate, clear };
+}
+
+export type ABICache = ReturnType<typeof createABICache>;
+
+// Shared cache used by fetchModuleABI
+export const abiCache = createABICache();
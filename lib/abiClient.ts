@@ -0,0 +1,44 @@
+import type { ModuleABI } from './abiStorage';
+import { serializeEntryFunctionArgs } from './moveSerialization';
+import { standardizeAddress } from './utils';
+import type { SendTransactionOptions, WalletStore } from './walletStore';
+
+// TypeScript shapes accepted for Move argument types in generated clients
+export type MoveAddress = string;
+export type MoveUint = number | bigint | string;
+export type MoveBytes = Uint8Array | string | number[];
+// Struct arguments, fields are serialized in the order the ABI declares them
+export type MoveStruct = { [field: string]: unknown };
+
+// What a generated client needs: the wallet store or the object from useWalletActions()
+export type ModuleClientTarget = Pick<WalletStore, 'sendRawTransaction' | 'callView'>;
+
+// Serializes the arguments from the ABI and sends the entry function through the wallet
+export async function submitEntryFunction(
+  target: ModuleClientTarget,
+  abi: ModuleABI,
+  functionName: string,
+  typeArgs: string[],
+  args: unknown[],
+  options?: SendTransactionOptions
+) {
+  return target.sendRawTransaction(
+    standardizeAddress(abi.address),
+    abi.name,
+    functionName,
+    await serializeEntryFunctionArgs(abi, functionName, args, typeArgs),
+    typeArgs,
+    undefined,
+    options
+  );
+}
+
+export function callViewFunction<T extends unknown[]>(
+  target: ModuleClientTarget,
+  abi: ModuleABI,
+  functionName: string,
+  typeArgs: string[],
+  args: unknown[]
+) {
+  return target.callView<T>(abi.address, abi.name, functionName, typeArgs, args);
+}
@@ -1,5 +1,7 @@
 import { supraAccountABI } from "./abis/supra_account";
 import { standardizeAddress } from "./utils";
+import { abiCache } from "./abiCache";
+import { getRpcClient, type SupraRpcClient } from "./supraRpcClient";
 
 export interface ModuleABI {
   address: string;
@@ -23,6 +25,8 @@ export interface ModuleABI {
   }>;
 }
 
+export type MoveFunctionABI = ModuleABI["exposed_functions"][number];
+
 export interface ABIStorage {
   [moduleAddress: string]: {
     [moduleName: string]: ModuleABI;
@@ -31,6 +35,7 @@ export interface ABIStorage {
 
 // Abi storage
 // always standardize address for consistency
+// npm run abis rewrites this object and the ./abis imports from lib/abis
 export const abiStorage: ABIStorage = {
   [standardizeAddress("0x1")]: {
     supra_account: supraAccountABI,
@@ -51,3 +56,26 @@ export function getStoredABI(
 
   return null;
 }
+
+// Stored ABI of a module, otherwise from the ABI cache (memory, IndexedDB, then the RPC)
+export async function fetchModuleABI(
+  moduleAddress: string,
+  moduleName: string,
+  client: SupraRpcClient = getRpcClient()
+): Promise<ModuleABI> {
+  const storedABI = getStoredABI(moduleAddress, moduleName);
+  if (storedABI) {
+    return storedABI;
+  }
+
+  try {
+    return await abiCache.get(moduleAddress, moduleName, client);
+  } catch (error) {
+    console.error("Error fetching module ABI:", error);
+    throw new Error(
+      `Failed to fetch module ABI: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
@@ -0,0 +1,284 @@
+import { HexString, SupraAccount } from 'supra-l1-sdk-core';
+import { formatAmount } from '../amounts';
+import { createMockChain, type MockChain } from '../mockChain';
+import { getActiveNetwork, getNetworkByChainId } from '../networks';
+import { getNativeToken } from '../tokenRegistry';
+import type {
+  WalletAdapter,
+  WalletAdapterEvent,
+  WalletAdapterListener,
+  WalletType,
+} from '../walletRegistry';
+
+// Scripted answer to the next wallet prompt (connect, sign message, send transaction)
+export type MockWalletStep =
+  | { action: 'approve' }
+  | { action: 'reject'; message?: string }
+  | { action: 'delay'; ms: number };
+
+export interface MockWalletOptions {
+  // Registered by the code using the mock through module augmentation, so the
+  // app's WalletType doesn't include it
+  type: WalletType;
+  // Number of generated accounts, or explicit private keys to sign with
+  accounts?: number | Uint8Array[];
+  chain?: MockChain;
+  chainId?: string;
+  installed?: boolean;
+  // Answer used once the scripted steps run out
+  defaultStep?: Exclude<MockWalletStep, { action: 'delay' }>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wallet adapter backed by real ed25519 keypairs and an in-memory chain, for
+ * driving the wallet store without a browser extension. Prompts resolve from a
+ * script of approve / reject / delay steps; account switches and wallet-side
+ * disconnects are pushed to subscribers like a real extension would.
+ *
+ * ```ts
+ * // With `mock: true` added to RegisteredWallets, see scripts/mock-wallet.d.ts
+ * const mock = createMockWallet({ type: 'mock', accounts: 2 });
+ * registerWalletAdapter(mock.adapter);
+ * mock.script({ action: 'approve' }, { action: 'reject' });
+ * await walletStore.connectWallet('mock'); // connects, then the sign-in is rejected
+ * ```
+ */
+export function createMockWallet({
+  type,
+  accounts = 1,
+  chain,
+  chainId = '6',
+  installed = true,
+  defaultStep = { action: 'approve' },
+}: MockWalletOptions) {
+  const keys = typeof accounts === 'number'
+    ? Array.from({ length: accounts }, () => new SupraAccount())
+    : accounts.map((privateKey) => new SupraAccount(privateKey));
+  if (!keys.length) {
+    throw new Error('Mock wallet needs at least one account');
+  }
+
+  const mockChain = chain ?? createMockChain({ chainId });
+  const listeners = new Set<WalletAdapterListener>();
+  const steps: MockWalletStep[] = [];
+
+  let isInstalled = installed;
+  let connected = false;
+  let activeIndex = 0;
+  let networkChainId = chainId;
+
+  const emit = (event: WalletAdapterEvent) => {
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const getActiveAccount = () => keys[activeIndex];
+
+  const requireInstalled = () => {
+    if (!isInstalled) {
+      throw new Error('Mock wallet is not installed');
+    }
+  };
+
+  const requireConnected = () => {
+    requireInstalled();
+    if (!connected) {
+      throw new Error('Mock wallet is not connected');
+    }
+    return getActiveAccount();
+  };
+
+  // Plays scripted steps until one approves or rejects the prompt
+  const prompt = async () => {
+    for (;;) {
+      const step = steps.shift() ?? defaultStep;
+      switch (step.action) {
+        case 'delay': {
+          await sleep(step.ms);
+          break;
+        }
+        case 'reject': {
+          throw new Error(step.message || 'User rejected the request');
+        }
+        default:
+          return;
+      }
+    }
+  };
+
+  const adapter: WalletAdapter = {
+    type,
+    name: 'Mock Wallet',
+    capabilities: {
+      signMessage: true,
+      accountSwitching: true,
+      networkSwitching: true,
+      rawTransactions: true,
+      eventListeners: true,
+      tokenRevalidation: true,
+    },
+
+    getProvider: () => (isInstalled ? controls : null),
+
+    isInstalled: () => isInstalled,
+
+    async connect() {
+      requireInstalled();
+      await prompt();
+      connected = true;
+      return [getActiveAccount().address().hex()];
+    },
+
+    async disconnect() {
+      requireInstalled();
+      connected = false;
+    },
+
+    async getAccounts() {
+      requireInstalled();
+      return connected ? [getActiveAccount().address().hex()] : [];
+    },
+
+    async getBalance(balanceChainId) {
+      const account = requireConnected();
+      const token = getNativeToken(getNetworkByChainId(balanceChainId) ?? getActiveNetwork());
+      const amount = mockChain.getBalance(account.address().hex());
+      return {
+        formattedBalance: formatAmount(amount, token.decimals),
+        displayUnit: token.symbol,
+      };
+    },
+
+    // Exact balance from the mock chain, so the store doesn't ask the RPC
+    async getCoinBalance(balanceChainId) {
+      const account = requireConnected();
+      const token = getNativeToken(getNetworkByChainId(balanceChainId) ?? getActiveNetwork());
+      return {
+        coinType: token.id,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        amount: mockChain.getBalance(account.address().hex()),
+      };
+    },
+
+    // Sequence numbers from the mock chain, so queued sends don't ask the RPC
+    async getSequenceNumber(address) {
+      requireInstalled();
+      return mockChain.getSequenceNumber(address);
+    },
+
+    async getNetwork() {
+      requireInstalled();
+      return { chainId: networkChainId };
+    },
+
+    async switchNetwork(nextChainId) {
+      requireInstalled();
+      networkChainId = nextChainId;
+    },
+
+    async signMessage({ message }) {
+      const account = requireConnected();
+      await prompt();
+
+      // The store verifies against the UTF-8 bytes behind the hex message
+      const signature = account.signBuffer(new HexString(message).toUint8Array());
+      return {
+        publicKey: account.pubKey().hex(),
+        signature: signature.hex(),
+        address: account.address().hex(),
+      };
+    },
+
+    async sendRawTransaction(request) {
+      const account = requireConnected();
+      await prompt();
+
+      const txnRequest = {
+        sender: account.address().hex(),
+        sequenceNumber:
+          request.sequenceNumber ?? mockChain.getSequenceNumber(account.address().hex()),
+        moduleAddress: request.moduleAddress,
+        moduleName: request.moduleName,
+        functionName: request.functionName,
+        typeArgs: request.typeArgs,
+        args: request.args,
+        maxGasAmount: request.maxGasAmount,
+        gasUnitPrice: request.gasUnitPrice,
+        expirationTimestampSecs: request.expirationTimestampSecs,
+      };
+      const rawTransaction = mockChain.buildRawTransaction(txnRequest);
+      const signature = account.signBuffer(mockChain.getSigningMessage(rawTransaction));
+
+      return mockChain.submitTransaction(
+        txnRequest,
+        rawTransaction,
+        account.pubKey().hex(),
+        signature.hex()
+      );
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  const controls = {
+    adapter,
+    chain: mockChain,
+    accounts: keys,
+
+    // Queue answers for upcoming prompts, consumed in order
+    script(...nextSteps: MockWalletStep[]) {
+      steps.push(...nextSteps);
+    },
+    clearScript() {
+      steps.length = 0;
+    },
+
+    get connected() {
+      return connected;
+    },
+    get activeAccount() {
+      return getActiveAccount();
+    },
+
+    // Simulates picking another account inside the wallet
+    switchAccount(index: number) {
+      if (!keys[index]) {
+        throw new Error(`Mock wallet has no account ${index}`);
+      }
+      activeIndex = index;
+      if (connected) {
+        emit({ type: 'accountsChanged' });
+      }
+    },
+
+    // Simulates the user disconnecting from the wallet side
+    disconnect() {
+      connected = false;
+      emit({ type: 'disconnected' });
+    },
+
+    closeWindow() {
+      emit({ type: 'windowClosed' });
+    },
+
+    install() {
+      isInstalled = true;
+      emit({ type: 'installed' });
+    },
+    uninstall() {
+      isInstalled = false;
+      connected = false;
+    },
+  };
+
+  return controls;
+}
+
+export type MockWallet = ReturnType<typeof createMockWallet>;
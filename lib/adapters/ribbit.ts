@@ -0,0 +1,174 @@
+import { BCS, TxnBuilderTypes } from 'supra-l1-sdk-core';
+import {
+  type DappMetadata,
+  type RawTransactionResponse,
+  type RibbitWalletSDK,
+  type SignMessageResponse,
+  type WalletBalanceRequest,
+  SupraChainId,
+  initSdk,
+} from 'ribbit-wallet-connect';
+import type { WalletAdapter, WalletTransactionRequest } from '../walletRegistry';
+import { getActiveNetwork, getNetworkByChainId } from '../networks';
+import { toTxnTypeTag } from '../typeTags';
+
+const getProvider = (): RibbitWalletSDK | null => {
+  if (typeof window === 'undefined') return null;
+  return initSdk();
+};
+
+const requireProvider = (): RibbitWalletSDK => {
+  const provider = getProvider();
+  if (!provider) {
+    throw new Error('Ribbit wallet is not installed');
+  }
+  return provider;
+};
+
+// Ribbit identifies networks by their numeric chain id
+const toSupraChainId = (chainId: string): SupraChainId => Number(chainId);
+
+// Ribbit's own builder hardcodes gas, expiry and sequence number, so the raw
+// transaction is built here and only handed to Ribbit to sign and send. The
+// store has already resolved those and reserved the sequence number in its
+// queue, they're used as given
+const buildRawTransaction = (request: WalletTransactionRequest) => {
+  const { sequenceNumber, maxGasAmount, gasUnitPrice, expirationTimestampSecs } = request;
+  if (
+    sequenceNumber === undefined ||
+    maxGasAmount === undefined ||
+    gasUnitPrice === undefined ||
+    expirationTimestampSecs === undefined
+  ) {
+    throw new Error(
+      'Ribbit transactions need the sequence number, gas and expiry resolved by the wallet store'
+    );
+  }
+
+  const rawTxn = new TxnBuilderTypes.RawTransaction(
+    TxnBuilderTypes.AccountAddress.fromHex(request.sender),
+    sequenceNumber,
+    new TxnBuilderTypes.TransactionPayloadEntryFunction(
+      TxnBuilderTypes.EntryFunction.natural(
+        `${request.moduleAddress}::${request.moduleName}`,
+        request.functionName,
+        request.typeArgs.map((typeArg) => toTxnTypeTag(typeArg)),
+        request.args
+      )
+    ),
+    maxGasAmount,
+    gasUnitPrice,
+    expirationTimestampSecs,
+    new TxnBuilderTypes.ChainId(toSupraChainId(request.chainId))
+  );
+  return Buffer.from(BCS.bcsToBytes(rawTxn)).toString('base64');
+};
+
+export const ribbitAdapter: WalletAdapter = {
+  type: 'ribbit',
+  name: 'Ribbit Wallet',
+  icon: '/walletIcons/Ribbit.jpg',
+  downloadUrl: 'https://ribbitwallet.com',
+  capabilities: {
+    signMessage: true,
+    accountSwitching: false, // Ribbit doesn't support account switching
+    networkSwitching: false, // Ribbit network switching happens in-app
+    rawTransactions: true,
+    eventListeners: false,
+    tokenRevalidation: false, // Ribbit doesn't support token revalidation
+  },
+
+  getProvider,
+
+  isInstalled: () => !!getProvider(),
+
+  async connect() {
+    const dappMetadata: DappMetadata = {
+      name: 'multiwallet',
+      description: 'NFT Marketplace and Lootbox Platform',
+      logo: window.location.origin + '/favicon.ico',
+      url: window.location.origin,
+    };
+
+    const response = await requireProvider().connectToWallet(dappMetadata);
+
+    if (response.walletAddress == null) {
+      throw new Error('No account found');
+    }
+    if (!response.connected) {
+      throw new Error('Connection rejected');
+    }
+    return [response.walletAddress];
+  },
+
+  async disconnect() {
+    await requireProvider().disconnect();
+  },
+
+  async getAccounts() {
+    // Currently only returns the supra address. In future it may return other chain addresses as well.
+    const wallet = requireProvider().getWalletInfo();
+    return wallet?.connected ? [wallet.walletAddress] : [];
+  },
+
+  async getBalance(chainId) {
+    const network = getNetworkByChainId(chainId) ?? getActiveNetwork();
+    const walletBalanceRequest: WalletBalanceRequest = {
+      chainId: parseInt(chainId),
+      resourceType: network.coinType,
+      decimals: network.decimals,
+    };
+    const response = await requireProvider().getWalletBalance(walletBalanceRequest);
+    return {
+      // toFixed, as String() writes small balances as 1e-7
+      formattedBalance: (response.balance ?? 0).toFixed(network.decimals),
+      displayUnit: network.coinSymbol,
+    };
+  },
+
+  async getNetwork() {
+    // Ribbit doesn't expose the active network, assume the selected one
+    return { chainId: getActiveNetwork().chainId };
+  },
+
+  async switchNetwork() {
+    // call provider.onChangeNetwork when its handler is added on the app side.
+    throw new Error('Network switching not available for Ribbit wallet');
+  },
+
+  async signMessage({ message, nonce, chainId }) {
+    const response: SignMessageResponse = await requireProvider().signMessage({
+      message,
+      nonce: parseInt(nonce),
+      chainId: parseInt(chainId),
+    });
+
+    if (!response.approved || !response.publicKey || !response.signature) {
+      throw new Error(response.error || 'Message signing rejected');
+    }
+    return {
+      ...response,
+      publicKey: response.publicKey,
+      signature: response.signature,
+    };
+  },
+
+  async sendRawTransaction(request) {
+    const provider = requireProvider();
+    const chainId = toSupraChainId(request.chainId);
+    const rawTxnBase64 = buildRawTransaction(request);
+
+    const response: RawTransactionResponse = await provider.signAndSendRawTransaction({
+      rawTxn: rawTxnBase64,
+      chainId,
+      meta: {
+        description: `Call ${request.moduleName}::${request.functionName}`,
+      },
+    });
+
+    if (!response.approved) {
+      throw new Error(response.error || 'Transaction rejected');
+    }
+    return response.result || response.txHash;
+  },
+};
@@ -0,0 +1,183 @@
+import type {
+  WalletAdapter,
+  WalletAdapterListener,
+  WalletNetwork,
+  WalletSignature,
+} from '../walletRegistry';
+import type { IWalletBalance } from '../types';
+
+const ACCOUNT_STORAGE_KEY = 'starkey.accounts.0';
+
+// Subset of the provider injected at window.starkey.supra that we rely on
+interface StarkeyProvider {
+  connect(): Promise<unknown>;
+  disconnect(): Promise<void>;
+  account(): Promise<string[]>;
+  balance(): Promise<IWalletBalance | undefined>;
+  getChainId(): Promise<WalletNetwork | undefined>;
+  changeNetwork(request: { chainId: string }): Promise<unknown>;
+  signMessage(request: { message: string; nonce: string }): Promise<WalletSignature>;
+  createRawTransactionData(payload: unknown[]): Promise<string>;
+  sendTransaction(request: {
+    data: string;
+    from: string;
+    to: string;
+    chainId: string;
+    value: string;
+  }): Promise<string | undefined>;
+}
+
+const getProvider = (): StarkeyProvider | null => {
+  if (typeof window === 'undefined') return null;
+  const starkey = (window as unknown as { starkey?: { supra?: StarkeyProvider } }).starkey;
+  return starkey?.supra || null;
+};
+
+const requireProvider = (): StarkeyProvider => {
+  const provider = getProvider();
+  if (!provider) {
+    throw new Error('Starkey wallet is not installed');
+  }
+  return provider;
+};
+
+// Starkey takes these as JS numbers, so larger u64 values would lose precision
+const toSafeNumber = (name: string, value: bigint) => {
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error(
+      `${name} ${value} is too large for Starkey, the maximum is ${Number.MAX_SAFE_INTEGER}`
+    );
+  }
+  return Number(value);
+};
+
+export const starkeyAdapter: WalletAdapter = {
+  type: 'starkey',
+  name: 'Starkey Wallet',
+  icon: '/walletIcons/Starkey.png',
+  downloadUrl:
+    'https://chromewebstore.google.com/detail/starkey-wallet-the-offici/hcjhpkgbmechpabifbggldplacolbkoh',
+  capabilities: {
+    signMessage: true,
+    accountSwitching: true,
+    networkSwitching: true,
+    rawTransactions: true,
+    eventListeners: true,
+    tokenRevalidation: true,
+  },
+
+  getProvider,
+
+  isInstalled: () => !!getProvider(),
+
+  async connect() {
+    const provider = requireProvider();
+    await provider.connect();
+    const accounts = await starkeyAdapter.getAccounts();
+    if (accounts.length == 0) {
+      throw new Error('No account found');
+    }
+    return accounts;
+  },
+
+  async disconnect() {
+    await requireProvider().disconnect();
+  },
+
+  async getAccounts() {
+    try {
+      const accounts = await requireProvider().account();
+      if (accounts.length > 0) {
+        localStorage.setItem(ACCOUNT_STORAGE_KEY, accounts[0]);
+      }
+      return accounts;
+    } catch (error) {
+      localStorage.removeItem(ACCOUNT_STORAGE_KEY);
+      throw error;
+    }
+  },
+
+  async getBalance() {
+    const balance = await requireProvider().balance();
+    return balance || null;
+  },
+
+  async getNetwork() {
+    const data = await requireProvider().getChainId();
+    return data || { chainId: '' };
+  },
+
+  async switchNetwork(chainId) {
+    await requireProvider().changeNetwork({ chainId });
+  },
+
+  async signMessage({ message, nonce }) {
+    return requireProvider().signMessage({ message, nonce });
+  },
+
+  async sendRawTransaction(request) {
+    const provider = requireProvider();
+    const rawTxPayload = [
+      request.sender,
+      toSafeNumber('sequenceNumber', request.sequenceNumber ?? BigInt(0)),
+      request.moduleAddress,
+      request.moduleName,
+      request.functionName,
+      request.typeArgs,
+      request.args,
+      {
+        maxGas:
+          request.maxGasAmount !== undefined
+            ? toSafeNumber('maxGasAmount', request.maxGasAmount)
+            : undefined,
+        gasUnitPrice:
+          request.gasUnitPrice !== undefined
+            ? toSafeNumber('gasUnitPrice', request.gasUnitPrice)
+            : undefined,
+        txExpiryTime:
+          request.expirationTimestampSecs !== undefined
+            ? toSafeNumber('expirationTimestampSecs', request.expirationTimestampSecs)
+            : undefined,
+      },
+    ];
+
+    const data = await provider.createRawTransactionData(rawTxPayload);
+    return provider.sendTransaction({
+      data,
+      from: request.sender,
+      to: request.moduleAddress,
+      chainId: request.chainId,
+      value: '',
+    });
+  },
+
+  subscribe(listener: WalletAdapterListener) {
+    const handleExtensionEvents = (event: MessageEvent) => {
+      switch (event?.data?.name) {
+        case 'starkey-extension-installed': {
+          listener({ type: 'installed' });
+          break;
+        }
+        case 'starkey-wallet-updated': {
+          listener({ type: 'accountsChanged' });
+          break;
+        }
+        case 'starkey-wallet-disconnected': {
+          listener({ type: 'disconnected' });
+          break;
+        }
+        case 'starkey-window-removed': {
+          listener({ type: 'windowClosed' });
+          break;
+        }
+      }
+    };
+
+    window.addEventListener('message', handleExtensionEvents);
+    return () => window.removeEventListener('message', handleExtensionEvents);
+  },
+
+  clearSession() {
+    localStorage.removeItem(ACCOUNT_STORAGE_KEY);
+  },
+};
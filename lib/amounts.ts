@@ -0,0 +1,115 @@
+// Coin amounts are kept as bigint base units, these convert to and from the
+// decimal strings users type and read without going through floating point
+
+export const U64_MAX = BigInt('18446744073709551615');
+
+// Thrown by parseAmount for input that isn't an exact, representable amount
+export class AmountError extends Error {
+  constructor(message: string, public readonly input: string) {
+    super(`Invalid amount "${input}": ${message}`);
+    this.name = 'AmountError';
+  }
+}
+
+export interface ParseAmountOptions {
+  // Largest accepted amount in base units (default u64 max)
+  max?: bigint;
+}
+
+export interface FormatAmountOptions {
+  // Decimal places to show, the rest is rounded (default all of the coin's decimals)
+  maxDecimals?: number;
+  // Trailing zeros are kept up to this many places (default 0)
+  minDecimals?: number;
+  // down truncates, so a balance is never shown larger than it is (default)
+  rounding?: 'down' | 'up' | 'nearest';
+  // Thousands separators in the whole part, as in 1,234.5
+  grouping?: boolean;
+}
+
+const AMOUNT_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+const checkDecimals = (decimals: number) => {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new Error(`Invalid decimals ${decimals}`);
+  }
+};
+
+const pow10 = (exponent: number) => BigInt(`1${'0'.repeat(exponent)}`);
+
+const groupThousands = (digits: string) => digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+
+/**
+ * Parses a decimal string like "1.5" into base units of a coin with the given
+ * decimals (150000000 for 8). Surrounding whitespace and trailing zeros are
+ * ignored; negatives, exponents, more decimal places than the coin has and
+ * amounts above `max` throw an AmountError.
+ */
+export function parseAmount(
+  input: string,
+  decimals: number,
+  { max = U64_MAX }: ParseAmountOptions = {}
+): bigint {
+  checkDecimals(decimals);
+  const value = input.trim();
+  if (value.startsWith('-')) {
+    throw new AmountError('negative amounts are not allowed', input);
+  }
+
+  const match = AMOUNT_PATTERN.exec(value);
+  if (!match || (!match[1] && !match[2])) {
+    throw new AmountError('expected a decimal number such as 1.5', input);
+  }
+
+  const [, whole, fraction = ''] = match;
+  const significant = fraction.replace(/0+$/, '');
+  if (significant.length > decimals) {
+    throw new AmountError(`the coin only has ${decimals} decimal places`, input);
+  }
+
+  const amount =
+    BigInt(whole || '0') * pow10(decimals) + BigInt(significant.padEnd(decimals, '0') || '0');
+  if (amount > max) {
+    throw new AmountError(`exceeds the maximum of ${formatAmount(max, decimals)}`, input);
+  }
+  return amount;
+}
+
+/**
+ * Formats base units as a decimal string, e.g. 150000000 with 8 decimals as
+ * "1.5". Negative amounts (balance changes) keep their sign.
+ */
+export function formatAmount(
+  baseUnits: bigint | number | string,
+  decimals: number,
+  {
+    maxDecimals = decimals,
+    minDecimals = 0,
+    rounding = 'down',
+    grouping = false,
+  }: FormatAmountOptions = {}
+): string {
+  checkDecimals(decimals);
+  const amount = BigInt(baseUnits);
+  const negative = amount < BigInt(0);
+  const absolute = negative ? -amount : amount;
+
+  const places = Math.max(0, Math.min(maxDecimals, decimals));
+  const unit = pow10(decimals - places);
+  let scaled = absolute / unit;
+  const remainder = absolute % unit;
+  if (
+    (rounding === 'up' && remainder > BigInt(0)) ||
+    (rounding === 'nearest' && remainder * BigInt(2) >= unit)
+  ) {
+    scaled += BigInt(1);
+  }
+
+  const scale = pow10(places);
+  const whole = (scaled / scale).toString();
+  const digits = places ? (scaled % scale).toString().padStart(places, '0') : '';
+  const fraction = digits.replace(/0+$/, '').padEnd(minDecimals, '0');
+
+  const sign = negative && scaled > BigInt(0) ? '-' : '';
+  return `${sign}${grouping ? groupThousands(whole) : whole}${fraction ? `.${fraction}` : ''}`;
+}
@@ -0,0 +1,99 @@
+// Why balances are being refreshed
+export type BalanceRefreshReason = 'transaction' | 'account' | 'network' | 'poll' | 'manual';
+
+export type BalanceListener = (reason: BalanceRefreshReason) => void;
+
+export interface BalanceWatcherOptions {
+  // Fallback refresh while the tab is visible and nothing else happened, in ms
+  pollInterval?: number;
+  // Polling is skipped while this returns false, e.g. with no account connected
+  isActive?: () => boolean;
+}
+
+const DEFAULT_POLL_INTERVAL = 2 * 60 * 1000;
+
+const isVisible = () =>
+  typeof document === 'undefined' || document.visibilityState === 'visible';
+
+/**
+ * Tells subscribers when balances are worth reading again: after the app's own
+ * transactions settle, on account or network changes (reported through
+ * `refresh`) and otherwise every `pollInterval`, but only while the tab is
+ * visible. Any refresh restarts the poll timer, and a tab that comes back
+ * after the interval has passed refreshes straight away.
+ */
+export function createBalanceWatcher({
+  pollInterval = DEFAULT_POLL_INTERVAL,
+  isActive = () => true,
+}: BalanceWatcherOptions = {}) {
+  const listeners = new Set<BalanceListener>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let lastRefresh = Date.now();
+
+  const stopPolling = () => {
+    if (timer !== undefined) clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const schedulePoll = (delay = pollInterval) => {
+    stopPolling();
+    if (!listeners.size || !isVisible()) return;
+    timer = setTimeout(() => {
+      timer = undefined;
+      if (isActive()) {
+        refresh('poll');
+      } else {
+        schedulePoll();
+      }
+    }, delay);
+  };
+
+  const refresh = (reason: BalanceRefreshReason) => {
+    lastRefresh = Date.now();
+    listeners.forEach((listener) => {
+      try {
+        listener(reason);
+      } catch (error) {
+        console.error('Balance listener error:', error);
+      }
+    });
+    schedulePoll();
+  };
+
+  const handleVisibilityChange = () => {
+    if (!isVisible()) {
+      stopPolling();
+      return;
+    }
+    const elapsed = Date.now() - lastRefresh;
+    if (elapsed >= pollInterval && isActive()) {
+      refresh('poll');
+    } else {
+      schedulePoll(Math.max(0, pollInterval - elapsed));
+    }
+  };
+
+  const subscribe = (listener: BalanceListener) => {
+    listeners.add(listener);
+    if (listeners.size === 1) {
+      if (typeof document !== 'undefined') {
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+      }
+      schedulePoll();
+    }
+
+    return () => {
+      listeners.delete(listener);
+      if (!listeners.size) {
+        stopPolling();
+        if (typeof document !== 'undefined') {
+          document.removeEventListener('visibilitychange', handleVisibilityChange);
+        }
+      }
+    };
+  };
+
+  return { subscribe, refresh };
+}
+
+export type BalanceWatcher = ReturnType<typeof createBalanceWatcher>;
@@ -0,0 +1,310 @@
+import { parseAmount, type FormatAmountOptions } from './amounts';
+import { getActiveNetwork, type SupraNetwork } from './networks';
+import { getRpcClient, type SupraRpcClient } from './supraRpcClient';
+import {
+  formatTokenAmount,
+  getNativeToken,
+  normalizeTokenId,
+  resolveToken,
+  type TokenInfo,
+  type TokenKind,
+} from './tokenRegistry';
+import { formatTypeTag, parseTypeTag } from './typeTags';
+import type { IWalletBalance } from './types';
+import { standardizeAddress } from './utils';
+import type { WalletAdapter } from './walletRegistry';
+
+// Balance of one coin in base units, with what's needed to show it
+export interface CoinBalance {
+  // Coin type, or the metadata object address of a fungible asset
+  coinType: string;
+  symbol: string;
+  decimals: number;
+  amount: bigint;
+}
+
+// Balance with the token's info from the registry
+export interface AssetBalance extends CoinBalance {
+  kind: TokenKind;
+  name: string;
+  logoUri?: string;
+  verified: boolean;
+}
+
+export interface GetBalancesOptions {
+  network?: SupraNetwork;
+  // Metadata addresses of fungible assets to check besides the discovered ones
+  fungibleAssets?: string[];
+  // Default the shared client of the network
+  client?: SupraRpcClient;
+}
+
+// How balances are shown in the navbar, connect handler and send form
+export const BALANCE_DISPLAY_OPTIONS: FormatAmountOptions = {
+  maxDecimals: 4,
+  minDecimals: 2,
+  grouping: true,
+};
+
+const nativeCoin = (network: SupraNetwork) => {
+  const { id, symbol, decimals } = getNativeToken(network);
+  return { coinType: id, symbol, decimals };
+};
+
+// Native coin balance read from the chain, the same whichever wallet is connected
+export async function fetchCoinBalance(
+  address: string,
+  network: SupraNetwork = getActiveNetwork(),
+  client: SupraRpcClient = getRpcClient(network)
+): Promise<CoinBalance> {
+  const [amount] = await client.view<[string | number]>({
+    function: '0x1::coin::balance',
+    type_arguments: [network.coinType],
+    arguments: [standardizeAddress(address)],
+  });
+  return { ...nativeCoin(network), amount: BigInt(amount) };
+}
+
+// Base units of a wallet's preformatted balance, e.g. "1,234.5" from Starkey
+export const fromWalletBalance = (
+  balance: IWalletBalance,
+  network: SupraNetwork = getActiveNetwork()
+): CoinBalance => ({
+  ...nativeCoin(network),
+  amount: parseAmount(balance.formattedBalance.replace(/,/g, ''), network.decimals),
+});
+
+/**
+ * Native coin balance of the account. Adapters that track balances themselves
+ * (the mock wallet) answer directly; otherwise the chain is asked, and the
+ * wallet's own formatted balance is only used when the RPC fails.
+ */
+export async function getAccountBalance(
+  address: string,
+  network: SupraNetwork = getActiveNetwork(),
+  adapter?: WalletAdapter,
+  client: SupraRpcClient = getRpcClient(network)
+): Promise<CoinBalance | null> {
+  if (adapter?.getCoinBalance) {
+    return adapter.getCoinBalance(network.chainId);
+  }
+
+  try {
+    return await fetchCoinBalance(address, network, client);
+  } catch (error) {
+    if (!adapter) throw error;
+    console.warn('Error reading balance from the RPC, asking the wallet:', error);
+    const balance = await adapter.getBalance(network.chainId);
+    return balance ? fromWalletBalance(balance, network) : null;
+  }
+}
+
+// e.g. "1,234.50 SUPRA", the only place balances are turned into text
+export const formatBalance = (
+  balance: CoinBalance,
+  options: FormatAmountOptions = BALANCE_DISPLAY_OPTIONS
+) => formatTokenAmount(balance.amount, balance, options);
+
+const FRAMEWORK_ADDRESS = standardizeAddress('0x1');
+
+// Coin type held by a 0x1::coin::CoinStore<T> resource type, in the short form
+const getCoinStoreType = (resourceType: string) => {
+  if (!resourceType.includes('::coin::CoinStore<')) return undefined;
+  const tag = parseTypeTag(resourceType);
+  const isCoinStore =
+    tag.kind === 'struct' &&
+    tag.address === FRAMEWORK_ADDRESS &&
+    tag.module === 'coin' &&
+    tag.name === 'CoinStore';
+  return isCoinStore ? formatTypeTag(tag.typeArgs[0], { short: true }) : undefined;
+};
+
+const toAssetBalance = (token: TokenInfo, amount: string | number): AssetBalance => ({
+  kind: token.kind,
+  coinType: token.id,
+  name: token.name,
+  symbol: token.symbol,
+  decimals: token.decimals,
+  logoUri: token.logoUri,
+  verified: token.verified,
+  amount: BigInt(amount),
+});
+
+// Resolves to null, with a warning, so one unreadable asset doesn't hide the others
+const orSkip = <T>(lookup: Promise<T>, asset: string) =>
+  lookup.catch((error) => {
+    console.warn(`Error reading balance of ${asset}:`, error);
+    return null;
+  });
+
+// Account transactions scanned for fungible stores when there's no indexer
+const HISTORY_SCAN_COUNT = 100;
+
+const INDEXER_QUERY = `query FungibleAssetBalances($owner: String!) {
+  current_fungible_asset_balances(where: { owner_address: { _eq: $owner }, amount: { _gt: "0" } }) {
+    asset_type
+  }
+}`;
+
+// e.g. 0x1::fungible_asset::Deposit, in whatever address form the node returns
+const isFrameworkType = (type: string, moduleName: string, name: string) => {
+  const [address, typeModule, typeName] = type.split('::');
+  return (
+    typeModule === moduleName && typeName === name && standardizeAddress(address) === FRAMEWORK_ADDRESS
+  );
+};
+
+// Metadata addresses of the fungible assets the indexer lists for the account
+async function fetchIndexedFungibleAssets(owner: string, indexerUrl: string) {
+  const response = await fetch(indexerUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query: INDEXER_QUERY, variables: { owner } }),
+  });
+  if (!response.ok) {
+    throw new Error(`Indexer request failed with ${response.status}: ${response.statusText}`);
+  }
+
+  const { data, errors } = (await response.json()) as {
+    data?: { current_fungible_asset_balances?: { asset_type: string }[] };
+    errors?: { message: string }[];
+  };
+  if (errors?.length) {
+    throw new Error(`Indexer query failed: ${errors[0].message}`);
+  }
+  // Coins are listed too, under their coin type
+  return (data?.current_fungible_asset_balances ?? [])
+    .map(({ asset_type }) => asset_type)
+    .filter((assetType) => !assetType.includes('::'));
+}
+
+// Metadata addresses of the stores the account's own transactions deposited to or
+// withdrew from, kept when the account still owns the store
+async function findFungibleAssetsInHistory(owner: string, client: SupraRpcClient) {
+  const transactions = await client.getAccountTransactions(owner, { count: HISTORY_SCAN_COUNT });
+  const stores = new Set<string>();
+  transactions.forEach((txn) =>
+    txn.output?.Move?.events?.forEach(({ type, data }) => {
+      const isStoreEvent =
+        isFrameworkType(type, 'fungible_asset', 'Deposit') ||
+        isFrameworkType(type, 'fungible_asset', 'Withdraw');
+      const store = (data as { store?: string } | null)?.store;
+      if (isStoreEvent && store) stores.add(standardizeAddress(store));
+    })
+  );
+
+  const metadata = await Promise.all(
+    Array.from(stores).map((store) =>
+      orSkip(
+        Promise.all([
+          client.getAccountResource<{ owner: string }>(store, '0x1::object::ObjectCore'),
+          client.getAccountResource<{ metadata: { inner: string } }>(
+            store,
+            '0x1::fungible_asset::FungibleStore'
+          ),
+        ]).then(([core, fungibleStore]) =>
+          standardizeAddress(core.data.owner) === owner ? fungibleStore.data.metadata.inner : null
+        ),
+        store
+      )
+    )
+  );
+  return metadata.filter((address): address is string => !!address);
+}
+
+/**
+ * Metadata addresses of the fungible assets the account holds. The RPC can't
+ * list the objects an account owns, so the network's indexer is asked when it
+ * has one; otherwise (or when it fails) the stores come from the fungible asset
+ * events of the account's recent transactions, which misses assets it has only
+ * received.
+ */
+export async function discoverFungibleAssets(
+  address: string,
+  network: SupraNetwork = getActiveNetwork(),
+  client: SupraRpcClient = getRpcClient(network)
+): Promise<string[]> {
+  const owner = standardizeAddress(address);
+  if (network.indexerUrl) {
+    try {
+      return await fetchIndexedFungibleAssets(owner, network.indexerUrl);
+    } catch (error) {
+      console.warn('Error listing fungible assets from the indexer, scanning history:', error);
+    }
+  }
+  return findFungibleAssetsInHistory(owner, client);
+}
+
+/**
+ * Every coin (from the account's CoinStore<T> resources) and fungible asset
+ * (primary stores of the discovered assets and `fungibleAssets`) the account
+ * holds, in base units with their token info from the registry. The native coin
+ * is always included and comes first; fungible assets without a balance are
+ * left out.
+ */
+export async function getBalances(
+  address: string,
+  {
+    network = getActiveNetwork(),
+    fungibleAssets = [],
+    client = getRpcClient(network),
+  }: GetBalancesOptions = {}
+): Promise<AssetBalance[]> {
+  const owner = standardizeAddress(address);
+  const [resources, discovered] = await Promise.all([
+    client.getAccountResources(owner),
+    discoverFungibleAssets(owner, network, client).catch((error) => {
+      console.warn('Error discovering fungible assets:', error);
+      return [] as string[];
+    }),
+  ]);
+
+  // The native coin may only sit in its paired fungible store, so it's listed regardless
+  const nativeCoinType = normalizeTokenId(network.coinType);
+  const coinTypes = new Set([nativeCoinType]);
+  resources.forEach(({ type }) => {
+    const coinType = getCoinStoreType(type);
+    if (coinType) coinTypes.add(coinType);
+  });
+
+  const coins = Array.from(coinTypes).map((coinType) =>
+    orSkip(
+      Promise.all([
+        // coin::balance also counts coins already migrated to the paired fungible store
+        client.view<[string | number]>({
+          function: '0x1::coin::balance',
+          type_arguments: [coinType],
+          arguments: [owner],
+        }),
+        resolveToken(coinType, network, client),
+      ]).then(([[amount], token]) => toAssetBalance(token, amount)),
+      coinType
+    )
+  );
+
+  const metadataAddresses = Array.from(
+    new Set([...discovered, ...fungibleAssets].map(standardizeAddress))
+  );
+  const assets = metadataAddresses.map((metadataAddress) =>
+    orSkip(
+      Promise.all([
+        client.view<[string | number]>({
+          function: '0x1::primary_fungible_store::balance',
+          type_arguments: ['0x1::fungible_asset::Metadata'],
+          arguments: [owner, metadataAddress],
+        }),
+        resolveToken(metadataAddress, network, client),
+      ]).then(([[amount], token]) => toAssetBalance(token, amount)),
+      metadataAddress
+    )
+  );
+
+  const balances = (await Promise.all([...coins, ...assets])).filter(
+    (balance): balance is AssetBalance =>
+      !!balance && (balance.kind === 'coin' || balance.amount > BigInt(0))
+  );
+  const isNative = (balance: AssetBalance) => balance.coinType === nativeCoinType;
+  return balances.sort(
+    (a, b) => Number(isNative(b)) - Number(isNative(a)) || a.symbol.localeCompare(b.symbol)
+  );
+}
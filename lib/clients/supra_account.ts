@@ -0,0 +1,84 @@
+// Generated by scripts/generate-abi-clients.mjs from lib/abis/supra_account.ts. Do not edit.
+import { supraAccountABI } from '../abis/supra_account';
+import {
+  callViewFunction,
+  submitEntryFunction,
+  type ModuleClientTarget,
+  type MoveAddress,
+  type MoveUint,
+} from '../abiClient';
+import type { SendTransactionOptions } from '../walletStore';
+
+export interface SupraAccountBatchTransferArgs {
+  // vector<address>
+  recipients: Array<MoveAddress>;
+  // vector<u64>
+  amounts: Array<MoveUint>;
+}
+
+export interface SupraAccountBatchTransferCoinsArgs {
+  typeArgs: [string];
+  // vector<address>
+  recipients: Array<MoveAddress>;
+  // vector<u64>
+  amounts: Array<MoveUint>;
+}
+
+export interface SupraAccountCanReceiveDirectCoinTransfersArgs {
+  // address
+  account: MoveAddress;
+}
+
+export interface SupraAccountCreateAccountArgs {
+  // address
+  authKey: MoveAddress;
+}
+
+export interface SupraAccountSetAllowDirectCoinTransfersArgs {
+  // bool
+  allow: boolean;
+}
+
+export interface SupraAccountTransferArgs {
+  // address
+  to: MoveAddress;
+  // u64
+  amount: MoveUint;
+}
+
+export interface SupraAccountTransferCoinsArgs {
+  typeArgs: [string];
+  // address
+  to: MoveAddress;
+  // u64
+  amount: MoveUint;
+}
+
+/** Typed client for 0x1::supra_account */
+export function createSupraAccountClient(target: ModuleClientTarget) {
+  return {
+    /** Entry function batch_transfer(&signer, vector<address>, vector<u64>) */
+    batchTransfer: ({ recipients, amounts }: SupraAccountBatchTransferArgs, options?: SendTransactionOptions) =>
+      submitEntryFunction(target, supraAccountABI, 'batch_transfer', [], [recipients, amounts], options),
+    /** Entry function batch_transfer_coins<T0>(&signer, vector<address>, vector<u64>) */
+    batchTransferCoins: ({ typeArgs, recipients, amounts }: SupraAccountBatchTransferCoinsArgs, options?: SendTransactionOptions) =>
+      submitEntryFunction(target, supraAccountABI, 'batch_transfer_coins', typeArgs, [recipients, amounts], options),
+    /** View function can_receive_direct_coin_transfers(address): bool */
+    canReceiveDirectCoinTransfers: ({ account }: SupraAccountCanReceiveDirectCoinTransfersArgs) =>
+      callViewFunction<[boolean]>(target, supraAccountABI, 'can_receive_direct_coin_transfers', [], [account]),
+    /** Entry function create_account(address) */
+    createAccount: ({ authKey }: SupraAccountCreateAccountArgs, options?: SendTransactionOptions) =>
+      submitEntryFunction(target, supraAccountABI, 'create_account', [], [authKey], options),
+    /** Entry function set_allow_direct_coin_transfers(&signer, bool) */
+    setAllowDirectCoinTransfers: ({ allow }: SupraAccountSetAllowDirectCoinTransfersArgs, options?: SendTransactionOptions) =>
+      submitEntryFunction(target, supraAccountABI, 'set_allow_direct_coin_transfers', [], [allow], options),
+    /** Entry function transfer(&signer, address, u64) */
+    transfer: ({ to, amount }: SupraAccountTransferArgs, options?: SendTransactionOptions) =>
+      submitEntryFunction(target, supraAccountABI, 'transfer', [], [to, amount], options),
+    /** Entry function transfer_coins<T0>(&signer, address, u64) */
+    transferCoins: ({ typeArgs, to, amount }: SupraAccountTransferCoinsArgs, options?: SendTransactionOptions) =>
+      submitEntryFunction(target, supraAccountABI, 'transfer_coins', typeArgs, [to, amount], options),
+  };
+}
+
+export type SupraAccountClient = ReturnType<typeof createSupraAccountClient>;
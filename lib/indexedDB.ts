@@ -0,0 +1,20 @@
+// Promise helpers over IndexedDB, shared by the transaction history and the ABI cache
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Opens the database, `upgrade` creates its object stores when the version is new
+export const openDatabase = (
+  dbName: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
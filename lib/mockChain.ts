@@ -0,0 +1,243 @@
+import nacl from 'tweetnacl';
+import { BCS, HexString, TransactionBuilder, TxnBuilderTypes } from 'supra-l1-sdk-core';
+import {
+  DEFAULT_EXPIRY_SECONDS,
+  DEFAULT_GAS_UNIT_PRICE,
+  DEFAULT_MAX_GAS_AMOUNT,
+} from './transactionOptions';
+import type { SupraTransaction } from './supraRpcClient';
+import { toTxnTypeTag } from './typeTags';
+import { standardizeAddress } from './utils';
+
+// The native coin, the only one the mock chain keeps balances of
+const NATIVE_COIN_TYPE = '0x1::supra_coin::SupraCoin';
+
+export interface MockTransactionRequest {
+  sender: string;
+  sequenceNumber: bigint;
+  moduleAddress: string;
+  moduleName: string;
+  functionName: string;
+  typeArgs: string[];
+  args: Uint8Array[];
+  maxGasAmount?: bigint;
+  gasUnitPrice?: bigint;
+  expirationTimestampSecs?: bigint;
+}
+
+// A submitted transaction as recorded by the mock chain
+export interface MockChainTransaction {
+  hash: string;
+  sender: string;
+  sequenceNumber: bigint;
+  moduleAddress: string;
+  moduleName: string;
+  functionName: string;
+  typeArgs: string[];
+  args: Uint8Array[];
+  chainId: string;
+  // BCS serialized RawTransaction exactly as it was signed
+  rawTransaction: Uint8Array;
+  publicKey: string;
+  signature: string;
+  timestamp: number;
+}
+
+export interface MockChainOptions {
+  chainId?: string;
+  // Initial balances in base units, keyed by address
+  balances?: Record<string, bigint>;
+}
+
+/**
+ * In-memory stand-in for a Supra node. Builds real BCS raw transactions,
+ * checks their ed25519 signatures and sequence numbers, and records every
+ * accepted submission so tests can assert on what a wallet sent.
+ */
+export function createMockChain({ chainId = '6', balances = {} }: MockChainOptions = {}) {
+  const transactions: MockChainTransaction[] = [];
+  const sequenceNumbers = new Map<string, bigint>();
+  const accountBalances = new Map<string, bigint>(
+    Object.entries(balances).map(([address, amount]) => [standardizeAddress(address), amount])
+  );
+
+  const getSequenceNumber = (address: string) =>
+    sequenceNumbers.get(standardizeAddress(address)) ?? BigInt(0);
+
+  const getBalance = (address: string) =>
+    accountBalances.get(standardizeAddress(address)) ?? BigInt(0);
+
+  const setBalance = (address: string, amount: bigint) => {
+    accountBalances.set(standardizeAddress(address), amount);
+  };
+
+  const buildRawTransaction = (request: MockTransactionRequest) => {
+    const typeArgs = request.typeArgs.map((typeArg) => toTxnTypeTag(typeArg));
+
+    return new TxnBuilderTypes.RawTransaction(
+      TxnBuilderTypes.AccountAddress.fromHex(request.sender),
+      request.sequenceNumber,
+      new TxnBuilderTypes.TransactionPayloadEntryFunction(
+        TxnBuilderTypes.EntryFunction.natural(
+          `${request.moduleAddress}::${request.moduleName}`,
+          request.functionName,
+          typeArgs,
+          request.args
+        )
+      ),
+      request.maxGasAmount ?? BigInt(DEFAULT_MAX_GAS_AMOUNT),
+      request.gasUnitPrice ?? BigInt(DEFAULT_GAS_UNIT_PRICE),
+      request.expirationTimestampSecs ??
+        BigInt(Math.floor(Date.now() / 1000) + DEFAULT_EXPIRY_SECONDS),
+      new TxnBuilderTypes.ChainId(Number(chainId))
+    );
+  };
+
+  // Bytes a wallet has to sign for the given raw transaction
+  const getSigningMessage = (rawTransaction: TxnBuilderTypes.RawTransaction) =>
+    TransactionBuilder.getSigningMessage(rawTransaction);
+
+  const submitTransaction = (
+    request: MockTransactionRequest,
+    rawTransaction: TxnBuilderTypes.RawTransaction,
+    publicKey: string,
+    signature: string
+  ) => {
+    const verified = nacl.sign.detached.verify(
+      getSigningMessage(rawTransaction),
+      new HexString(signature).toUint8Array(),
+      new HexString(publicKey).toUint8Array()
+    );
+    if (!verified) {
+      throw new Error('Invalid transaction signature');
+    }
+
+    const expected = getSequenceNumber(request.sender);
+    if (request.sequenceNumber !== expected) {
+      throw new Error(
+        `Sequence number mismatch: expected ${expected}, got ${request.sequenceNumber}`
+      );
+    }
+
+    // Stand-in hash over the signed payload, unique per submission
+    const serialized = BCS.bcsToBytes(rawTransaction);
+    const signatureBytes = new HexString(signature).toUint8Array();
+    const signedBytes = new Uint8Array(serialized.length + signatureBytes.length);
+    signedBytes.set(serialized);
+    signedBytes.set(signatureBytes, serialized.length);
+    const hash = HexString.fromUint8Array(nacl.hash(signedBytes).slice(0, 32)).hex();
+
+    sequenceNumbers.set(standardizeAddress(request.sender), expected + BigInt(1));
+    transactions.push({
+      ...request,
+      hash,
+      chainId,
+      rawTransaction: serialized,
+      publicKey,
+      signature,
+      timestamp: Date.now(),
+    });
+    return hash;
+  };
+
+  const getTransactions = (sender?: string) =>
+    sender
+      ? transactions.filter(
+          (txn) => standardizeAddress(txn.sender) === standardizeAddress(sender)
+        )
+      : [...transactions];
+
+  const getTransaction = (hash: string) => transactions.find((txn) => txn.hash === hash);
+
+  // A recorded submission as the RPC reports it once executed
+  const toRpcTransaction = (txn: MockChainTransaction): SupraTransaction => ({
+    hash: txn.hash,
+    status: 'Success',
+    header: {
+      sender: { Move: txn.sender },
+      sequence_number: Number(txn.sequenceNumber),
+      chain_id: Number(chainId),
+    },
+    payload: {
+      Move: {
+        function: `${txn.moduleAddress}::${txn.moduleName}::${txn.functionName}`,
+        type_arguments: txn.typeArgs,
+      },
+    },
+    output: { Move: { gas_used: 0, events: [], vm_status: 'Executed successfully' } },
+    block_header: { timestamp: { microseconds_since_unix_epoch: txn.timestamp * 1000 } },
+  });
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  /**
+   * Answers the RPC calls the wallet store makes (account info, gas price,
+   * transactions, `0x1::coin::balance`) from the mock chain. Pass it as the
+   * `fetch` of createSupraRpcClient; anything else is a 404.
+   */
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const path = url.pathname.replace(/\/+$/, '');
+    const method = init?.method ?? 'GET';
+    let match: RegExpMatchArray | null;
+
+    if (method === 'POST' && path === '/rpc/v1/view') {
+      const payload = JSON.parse(String(init?.body));
+      if (payload.function === '0x1::coin::balance') {
+        return json({ result: [getBalance(payload.arguments[0]).toString()] });
+      }
+    } else if (path === '/rpc/v1/transactions/estimate_gas_price') {
+      return json({
+        mean_gas_price: DEFAULT_GAS_UNIT_PRICE,
+        max_gas_price: DEFAULT_GAS_UNIT_PRICE,
+      });
+    } else if ((match = path.match(/^\/rpc\/v3\/transactions\/(0x[0-9a-fA-F]+)$/))) {
+      const txn = getTransaction(match[1]);
+      if (txn) return json(toRpcTransaction(txn));
+    } else if ((match = path.match(/^\/rpc\/v3\/accounts\/(0x[0-9a-fA-F]+)\/transactions$/))) {
+      const count = Number(url.searchParams.get('count') ?? transactions.length);
+      const newestFirst = getTransactions(match[1]).reverse().slice(0, count);
+      return json({ record: newestFirst.map(toRpcTransaction) });
+    } else if ((match = path.match(/^\/rpc\/v3\/accounts\/(0x[0-9a-fA-F]+)\/resources$/))) {
+      // One page holds everything, so no cursor
+      return json([
+        {
+          type: `0x1::coin::CoinStore<${NATIVE_COIN_TYPE}>`,
+          data: { coin: { value: getBalance(match[1]).toString() } },
+        },
+      ]);
+    } else if ((match = path.match(/^\/rpc\/v1\/accounts\/(0x[0-9a-fA-F]+)$/))) {
+      return json({
+        sequence_number: Number(getSequenceNumber(match[1])),
+        authentication_key: standardizeAddress(match[1]),
+      });
+    }
+    return json({ message: `Mock chain doesn't serve ${method} ${path}` }, 404);
+  };
+
+  const reset = () => {
+    transactions.length = 0;
+    sequenceNumbers.clear();
+    accountBalances.clear();
+  };
+
+  return {
+    chainId,
+    getSequenceNumber,
+    getBalance,
+    setBalance,
+    buildRawTransaction,
+    getSigningMessage,
+    submitTransaction,
+    getTransactions,
+    getTransaction,
+    fetch,
+    reset,
+  };
+}
+
+export type MockChain = ReturnType<typeof createMockChain>;
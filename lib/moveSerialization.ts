@@ -0,0 +1,627 @@
+import { BCS, HexString, TxnBuilderTypes } from 'supra-l1-sdk-core';
+import { fetchModuleABI, getStoredABI, type ModuleABI, type MoveFunctionABI } from './abiStorage';
+import { getRpcClient, type SupraRpcClient } from './supraRpcClient';
+import { normalizeTypeArgs } from './typeTags';
+import { standardizeAddress } from './utils';
+
+export const OPTION_PREFIX = '0x1::option::Option<';
+export const OBJECT_PREFIX = '0x1::object::Object<';
+
+// Thrown for a JS value that can't be encoded as the Move type it's passed for
+export class MoveValueError extends Error {
+  constructor(message: string, public readonly type: string, public readonly value: unknown) {
+    super(message);
+    this.name = 'MoveValueError';
+  }
+}
+
+const UINT_MAX: Record<string, bigint> = {
+  u8: BigInt(255),
+  u16: BigInt(65535),
+  u32: BigInt(4294967295),
+  u64: BigInt('18446744073709551615'),
+  u128: BigInt('340282366920938463463374607431768211455'),
+  u256: BigInt('115792089237316195423570985008687907853269984665640564039457584007913129639935'),
+};
+
+const INTEGER_PATTERN = /^-?\d+$/;
+
+const describeValue = (value: unknown) =>
+  typeof value === 'string' ? `"${value}"` : typeof value === 'bigint' ? `${value}n` : String(value);
+
+/**
+ * Unsigned integer of the given type (u8 to u256) from a number, bigint or
+ * decimal string. Fractions, NaN, numbers past 2^53 (pass a bigint or string)
+ * and values out of the type's range throw a MoveValueError.
+ */
+export function toUint(value: unknown, type: string): bigint {
+  const fail = (reason: string): never => {
+    throw new MoveValueError(`Invalid ${type} value ${describeValue(value)}: ${reason}`, type, value);
+  };
+
+  let result: bigint;
+  if (typeof value === 'bigint') {
+    result = value;
+  } else if (typeof value === 'number') {
+    if (!Number.isInteger(value)) fail('expected an integer');
+    if (!Number.isSafeInteger(value)) fail('not a safe integer, pass a bigint or string');
+    result = BigInt(value);
+  } else if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!INTEGER_PATTERN.test(trimmed)) fail('expected a decimal integer');
+    result = BigInt(trimmed);
+  } else {
+    return fail(`expected a number, bigint or string, got ${typeof value}`);
+  }
+
+  if (result < BigInt(0)) fail('cannot be negative');
+  if (result > UINT_MAX[type]) fail(`exceeds the ${type} maximum of ${UINT_MAX[type]}`);
+  return result;
+}
+
+// Names the argument in an error thrown while encoding it, keeping a MoveValueError's class
+export const argumentError = (error: unknown, index: number, type: string) => {
+  const message = `Failed to serialize argument ${index} (${type}): ${
+    error instanceof Error ? error.message : String(error)
+  }`;
+  return error instanceof MoveValueError
+    ? new MoveValueError(message, error.type, error.value)
+    : new Error(message);
+};
+
+// Type without whitespace and with short addresses, so "vector< u8 >" and
+// 0x000...001::string::String match the forms checked below
+export const canonicalType = (type: string) =>
+  type
+    .replace(/\s+/g, '')
+    .replace(/\b0x0*([0-9a-fA-F]+)/g, (_, hex: string) => `0x${hex.toLowerCase()}`);
+
+// vector<u8> from a hex string, Uint8Array or number[]
+export const toBytes = (value: unknown): Uint8Array => {
+  if (typeof value === 'string') {
+    // Hex string
+    return new HexString(value).toUint8Array();
+  }
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return new Uint8Array(value.map((item) => Number(toUint(item, 'u8'))));
+  }
+  throw new MoveValueError(
+    `Expected string, Uint8Array, or number[] for vector<u8>, got ${typeof value}`,
+    'vector<u8>',
+    value
+  );
+};
+
+const toAddress = (value: unknown, type: string) => {
+  if (typeof value !== 'string') {
+    throw new Error(`Expected string for ${type}, got ${typeof value}`);
+  }
+  return TxnBuilderTypes.AccountAddress.fromHex(value).address;
+};
+
+// Writes a single value of the given Move type to an existing serializer. Struct
+// definitions come from `abis`, then the stored ABIs
+export function serializeValueInto(
+  ser: BCS.Serializer,
+  value: unknown,
+  type: string,
+  abis: ModuleABI[] = []
+) {
+  type = canonicalType(type);
+
+  // Handle Option<T>
+  if (type.startsWith(OPTION_PREFIX)) {
+    if (value === null || value === undefined) {
+      ser.serializeU8(0);
+    } else {
+      ser.serializeU8(1);
+      serializeValueInto(ser, value, type.slice(OPTION_PREFIX.length, -1), abis);
+    }
+    return;
+  }
+
+  // Handle vector<T>
+  if (type.startsWith('vector<')) {
+    const vectorMatch = type.match(/vector<(.+)>$/);
+    if (!vectorMatch) {
+      throw new Error(`Invalid vector type format: ${type}`);
+    }
+    const innerType = vectorMatch[1];
+
+    // vector<u8> accepts a hex string, Uint8Array or number[]
+    if (innerType === 'u8') {
+      ser.serializeBytes(toBytes(value));
+      return;
+    }
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected array for vector<${innerType}>, got ${typeof value}`);
+    }
+    ser.serializeU32AsUleb128(value.length);
+    value.forEach((item) => serializeValueInto(ser, item, innerType, abis));
+    return;
+  }
+
+  // Handle 0x1::object::Object<T> - treat as address
+  if (type.startsWith(OBJECT_PREFIX)) {
+    ser.serializeFixedBytes(toAddress(value, 'Object'));
+    return;
+  }
+
+  switch (type) {
+    case 'address': {
+      ser.serializeFixedBytes(toAddress(value, type));
+      break;
+    }
+    case 'u8': {
+      ser.serializeU8(Number(toUint(value, type)));
+      break;
+    }
+    case 'u16': {
+      ser.serializeU16(Number(toUint(value, type)));
+      break;
+    }
+    case 'u32': {
+      ser.serializeU32(Number(toUint(value, type)));
+      break;
+    }
+    case 'u64': {
+      ser.serializeU64(toUint(value, type));
+      break;
+    }
+    case 'u128': {
+      ser.serializeU128(toUint(value, type));
+      break;
+    }
+    case 'u256': {
+      ser.serializeU256(toUint(value, type));
+      break;
+    }
+    case 'bool': {
+      if (typeof value !== 'boolean') {
+        throw new Error(`Expected boolean, got ${typeof value}`);
+      }
+      ser.serializeBool(value);
+      break;
+    }
+    case '0x1::string::String': {
+      if (typeof value !== 'string') {
+        throw new Error(`Expected string, got ${typeof value}`);
+      }
+      ser.serializeStr(value);
+      break;
+    }
+    default:
+      serializeStructInto(ser, value, type, abis);
+  }
+}
+
+// BCS bytes of a single value based on its Move type
+export function serializeValueByType(
+  value: unknown,
+  type: string,
+  abis: ModuleABI[] = []
+): Uint8Array {
+  const ser = new BCS.Serializer();
+  serializeValueInto(ser, value, type, abis);
+  return ser.getBytes();
+}
+
+// Entry function parameters the caller provides, without the injected signer
+export function getCallerParamTypes(params: string[]): string[] {
+  return params.filter((param) => {
+    const trimmed = param.trim();
+    return trimmed !== 'signer' && trimmed !== '&signer';
+  });
+}
+
+// Serializes transaction arguments based on parameter types
+export function serializeArgsFromTypes(
+  args: unknown[],
+  paramTypes: string[],
+  abis: ModuleABI[] = []
+): Uint8Array[] {
+  if (args.length !== paramTypes.length) {
+    throw new Error(`Argument count mismatch: expected ${paramTypes.length}, got ${args.length}`);
+  }
+
+  return args.map((arg, index) => {
+    try {
+      return serializeValueByType(arg, paramTypes[index], abis);
+    } catch (error) {
+      throw argumentError(error, index, paramTypes[index]);
+    }
+  });
+}
+
+// Address, module, name and type arguments of a struct type like 0x1::coin::Coin<0x1::supra_coin::SupraCoin>
+export interface StructTypeParts {
+  address: string;
+  module: string;
+  name: string;
+  typeArgs: string[];
+}
+
+const STRUCT_TYPE_PATTERN = /^(0x[0-9a-fA-F]+)::(\w+)::(\w+)(?:<([\s\S]*)>)?$/;
+
+// Splits "A, B<C, D>" at the commas that aren't nested in angle brackets
+const splitTypeArgs = (typeArgs: string) => {
+  const result: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < typeArgs.length; i++) {
+    const char = typeArgs[i];
+    if (char === '<') depth++;
+    else if (char === '>') depth--;
+    else if (char === ',' && depth === 0) {
+      result.push(typeArgs.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  result.push(typeArgs.slice(start).trim());
+  return result.filter(Boolean);
+};
+
+export function parseStructType(type: string): StructTypeParts | null {
+  const match = STRUCT_TYPE_PATTERN.exec(type.trim());
+  if (!match) return null;
+  const [, address, module, name, typeArgs] = match;
+  return { address, module, name, typeArgs: typeArgs ? splitTypeArgs(typeArgs) : [] };
+}
+
+const TYPE_PARAM_PATTERN = /(?<!::)\bT(\d+)\b/g;
+
+// Thrown for a generic parameter T<index> that has no type argument to replace it
+export class TypeParamError extends Error {
+  constructor(public readonly type: string, public readonly index: number, typeArgCount: number) {
+    super(
+      `Type parameter T${index} in ${type} has no type argument, ` +
+        `${typeArgCount} ${typeArgCount === 1 ? 'was' : 'were'} given`
+    );
+    this.name = 'TypeParamError';
+  }
+}
+
+// Replaces the generic parameters T0, T1... in a type with the given type arguments
+export function substituteTypeParams(type: string, typeArgs: string[]): string {
+  return type.replace(TYPE_PARAM_PATTERN, (_, index: string) => {
+    if (Number(index) >= typeArgs.length) {
+      throw new TypeParamError(type, Number(index), typeArgs.length);
+    }
+    return typeArgs[Number(index)];
+  });
+}
+
+// Struct definition of a struct type from the ABIs given or the stored ones
+const findStruct = (type: string, abis: ModuleABI[]) => {
+  const parts = parseStructType(type);
+  if (!parts) {
+    throw new Error(`Unsupported type: ${type}`);
+  }
+
+  const address = standardizeAddress(parts.address);
+  const moduleABI =
+    abis.find((abi) => abi.name === parts.module && standardizeAddress(abi.address) === address) ??
+    getStoredABI(parts.address, parts.module);
+  const struct = moduleABI?.structs?.find((item) => item.name === parts.name);
+  if (!struct) {
+    throw new Error(`Unknown struct ${type}, pass the ABI of ${parts.address}::${parts.module}`);
+  }
+  return { parts, struct };
+};
+
+// Fields of a struct type with T0, T1... replaced by its type arguments
+const getStructFields = (type: string, abis: ModuleABI[]) => {
+  const { parts, struct } = findStruct(type, abis);
+  if (!struct.fields) {
+    throw new Error(`Struct ${type} has no field definitions in its ABI`);
+  }
+
+  return struct.fields.map((field) => ({
+    name: field.name,
+    type: substituteTypeParams(field.type, parts.typeArgs),
+  }));
+};
+
+const VALUE_ABILITIES = ['copy', 'drop', 'store'];
+const PRIMITIVE_TYPES = ['bool', 'u8', 'u16', 'u32', 'u64', 'u128', 'u256', 'address'];
+
+/**
+ * Abilities of a concrete type. Vectors, Option and generic structs only keep
+ * the abilities all of their non-phantom type arguments have (key needs store).
+ */
+export function getTypeAbilities(type: string, abis: ModuleABI[] = []): string[] {
+  const trimmed = canonicalType(type);
+  const withArg = (abilities: string[], typeArg: string) => {
+    const argAbilities = getTypeAbilities(typeArg, abis);
+    return abilities.filter((ability) =>
+      argAbilities.includes(ability === 'key' ? 'store' : ability)
+    );
+  };
+
+  if (PRIMITIVE_TYPES.includes(trimmed) || trimmed === '0x1::string::String') {
+    return VALUE_ABILITIES;
+  }
+  if (trimmed === 'signer') return ['drop'];
+  if (trimmed.startsWith('vector<')) {
+    return withArg(VALUE_ABILITIES, trimmed.slice('vector<'.length, -1));
+  }
+  if (trimmed.startsWith(OPTION_PREFIX)) {
+    return withArg(VALUE_ABILITIES, trimmed.slice(OPTION_PREFIX.length, -1));
+  }
+  if (trimmed.startsWith(OBJECT_PREFIX)) return VALUE_ABILITIES;
+
+  const { parts, struct } = findStruct(trimmed, abis);
+  const typeParams: Array<{ is_phantom?: boolean }> = struct.generic_type_params ?? [];
+  return typeParams.reduce(
+    (abilities: string[], param, index) =>
+      param.is_phantom || !parts.typeArgs[index]
+        ? abilities
+        : withArg(abilities, parts.typeArgs[index]),
+    (struct.abilities ?? []).map((ability) => ability.toLowerCase())
+  );
+}
+
+const checkTypeArgCount = (functionDef: MoveFunctionABI, typeArgs: string[]) => {
+  const typeParams = functionDef.generic_type_params ?? [];
+  if (typeArgs.length !== typeParams.length) {
+    throw new Error(
+      `${functionDef.name} expects ${typeParams.length} type argument(s), got ${typeArgs.length}`
+    );
+  }
+  return typeParams;
+};
+
+// Checks the number of type arguments and that each one has the abilities its parameter requires
+export function validateTypeArgs(
+  functionDef: MoveFunctionABI,
+  typeArgs: string[],
+  abis: ModuleABI[] = []
+) {
+  checkTypeArgCount(functionDef, typeArgs).forEach(({ constraints = [] }, index) => {
+    if (!constraints.length) return;
+    const abilities = getTypeAbilities(typeArgs[index], abis);
+    const missing = constraints
+      .map((constraint) => String(constraint).toLowerCase())
+      .filter((constraint) => !abilities.includes(constraint));
+    if (missing.length) {
+      throw new Error(
+        `Type argument T${index} of ${functionDef.name} (${typeArgs[index]}) is missing the ` +
+          `${missing.join(' and ')} ${missing.length > 1 ? 'abilities' : 'ability'}`
+      );
+    }
+  });
+}
+
+// Caller parameter types of a function with its type parameters replaced by the type arguments
+export function resolveParamTypes(functionDef: MoveFunctionABI, typeArgs: string[]): string[] {
+  checkTypeArgCount(functionDef, typeArgs);
+  return getCallerParamTypes(functionDef.params).map((param) =>
+    substituteTypeParams(param, typeArgs)
+  );
+}
+
+// Names the field path inside the outermost struct, e.g. "fee.value"
+class StructFieldError extends Error {
+  constructor(
+    public readonly path: string[],
+    public readonly reason: string,
+    structType: string
+  ) {
+    super(`Invalid field ${path.join('.')} of ${structType}: ${reason}`);
+    this.name = 'StructFieldError';
+  }
+}
+
+// Writes a struct from a plain object, field by field in declaration order
+function serializeStructInto(
+  ser: BCS.Serializer,
+  value: unknown,
+  type: string,
+  abis: ModuleABI[]
+) {
+  const fields = getStructFields(type, abis);
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Expected object for ${type}, got ${Array.isArray(value) ? 'array' : typeof value}`);
+  }
+
+  const record = value as Record<string, unknown>;
+  const unknownField = Object.keys(record).find(
+    (key) => !fields.some((field) => field.name === key)
+  );
+  if (unknownField) {
+    throw new StructFieldError([unknownField], 'not a field of the struct', type);
+  }
+
+  fields.forEach((field) => {
+    // A left out Option<T> field is none, like an undefined Option argument
+    const isMissing = record[field.name] === undefined && !field.type.startsWith(OPTION_PREFIX);
+    if (isMissing) {
+      throw new StructFieldError([field.name], `missing (${field.type})`, type);
+    }
+    try {
+      serializeValueInto(ser, record[field.name], field.type, abis);
+    } catch (error) {
+      if (error instanceof StructFieldError) {
+        throw new StructFieldError([field.name, ...error.path], error.reason, type);
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new StructFieldError([field.name], `${errorMessage} (${field.type})`, type);
+    }
+  });
+}
+
+// Reads a single value of the given Move type from a deserializer
+export function deserializeValueFrom(
+  deser: BCS.Deserializer,
+  type: string,
+  abis: ModuleABI[] = []
+): unknown {
+  type = canonicalType(type);
+
+  // Handle Option<T>
+  if (type.startsWith(OPTION_PREFIX)) {
+    const length = deser.deserializeUleb128AsU32();
+    if (length > 1) {
+      throw new Error(`Invalid Option length: ${length}`);
+    }
+    return length ? deserializeValueFrom(deser, type.slice(OPTION_PREFIX.length, -1), abis) : null;
+  }
+
+  // Handle vector<T>
+  if (type.startsWith('vector<')) {
+    const innerType = type.slice('vector<'.length, -1).trim();
+    if (innerType === 'u8') {
+      return deser.deserializeBytes();
+    }
+    const length = deser.deserializeUleb128AsU32();
+    return Array.from({ length }, () => deserializeValueFrom(deser, innerType, abis));
+  }
+
+  // Handle 0x1::object::Object<T> - an address
+  if (type.startsWith(OBJECT_PREFIX) || type === 'address') {
+    return HexString.fromUint8Array(deser.deserializeFixedBytes(32)).hex();
+  }
+
+  switch (type) {
+    case 'u8':
+      return deser.deserializeU8();
+    case 'u16':
+      return deser.deserializeU16();
+    case 'u32':
+      return deser.deserializeU32();
+    case 'u64':
+      return deser.deserializeU64();
+    case 'u128':
+      return deser.deserializeU128();
+    case 'u256':
+      return deser.deserializeU256();
+    case 'bool':
+      return deser.deserializeBool();
+    case '0x1::string::String':
+      return deser.deserializeStr();
+    default: {
+      // Structs are their fields in declaration order
+      const result: Record<string, unknown> = {};
+      getStructFields(type, abis).forEach((field) => {
+        result[field.name] = deserializeValueFrom(deser, field.type, abis);
+      });
+      return result;
+    }
+  }
+}
+
+/**
+ * Decodes BCS bytes into a plain JS value of the given Move type, the reverse
+ * of serializeValueByType. u64 and wider come back as bigint, addresses as
+ * 0x-prefixed hex, vector<u8> as Uint8Array and Option<T> as the value or
+ * null. Structs are looked up in `abis`, then in the stored ABIs; use
+ * loadStructABIs to fetch the ones a type needs.
+ */
+export function deserializeValueByType(
+  bytes: Uint8Array | string,
+  type: string,
+  abis: ModuleABI[] = []
+): unknown {
+  const deser = new BCS.Deserializer(typeof bytes === 'string' ? toBytes(bytes) : bytes);
+  let value: unknown;
+  try {
+    value = deserializeValueFrom(deser, type, abis);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to deserialize ${type}: ${errorMessage}`);
+  }
+
+  let trailing = false;
+  try {
+    deser.deserializeU8();
+    trailing = true;
+  } catch {
+    // All bytes were read
+  }
+  if (trailing) {
+    throw new Error(`Unexpected bytes after ${type}`);
+  }
+  return value;
+}
+
+// Module ABIs of every struct reachable from the types, fetched through the ABI cache
+export async function loadStructABIs(
+  types: string | string[],
+  client: SupraRpcClient = getRpcClient()
+): Promise<ModuleABI[]> {
+  const abis = new Map<string, ModuleABI>();
+  const visited = new Set<string>();
+
+  const visit = async (moveType: string): Promise<void> => {
+    const trimmed = canonicalType(moveType);
+    if (visited.has(trimmed)) return;
+    visited.add(trimmed);
+
+    const parts = parseStructType(trimmed);
+    if (!parts) {
+      // vector<T> is the only non-struct type with an inner type
+      if (trimmed.startsWith('vector<')) await visit(trimmed.slice('vector<'.length, -1));
+      return;
+    }
+    // Option<T> is encoded as T, Object<T> as an address and String as bytes
+    if (trimmed.startsWith(OPTION_PREFIX)) {
+      await visit(parts.typeArgs[0]);
+      return;
+    }
+    if (trimmed.startsWith(OBJECT_PREFIX) || trimmed === '0x1::string::String') return;
+
+    const key = `${standardizeAddress(parts.address)}::${parts.module}`;
+    if (!abis.has(key)) {
+      abis.set(key, await fetchModuleABI(parts.address, parts.module, client));
+    }
+    const loaded = Array.from(abis.values());
+    const { struct } = findStruct(trimmed, loaded);
+    const typeParams: Array<{ is_phantom?: boolean }> = struct.generic_type_params ?? [];
+    // Phantom type arguments change neither the layout nor the abilities
+    const typeArgs = parts.typeArgs.filter((_, index) => !typeParams[index]?.is_phantom);
+    const fields = getStructFields(trimmed, loaded);
+    await Promise.all([...typeArgs, ...fields.map((field) => field.type)].map(visit));
+  };
+
+  await Promise.all((Array.isArray(types) ? types : [types]).map(visit));
+  return Array.from(abis.values());
+}
+
+/**
+ * Serializes entry function arguments from the module ABI. When type
+ * arguments are given, T0, T1... in the parameter types are replaced by them
+ * and each one is checked against its constraints first.
+ */
+export async function serializeEntryFunctionArgs(
+  moduleABI: ModuleABI,
+  functionName: string,
+  args: unknown[],
+  typeArgs?: string[],
+  client: SupraRpcClient = getRpcClient()
+): Promise<Uint8Array[]> {
+  const functionDef = moduleABI.exposed_functions.find((func) => func.name === functionName);
+  if (!functionDef) {
+    throw new Error(`Function ${functionName} not found in module ${moduleABI.name}`);
+  }
+
+  // Rejects malformed type arguments before any ABI is fetched
+  const normalizedTypeArgs = typeArgs && normalizeTypeArgs(typeArgs);
+  const paramTypes = normalizedTypeArgs
+    ? resolveParamTypes(functionDef, normalizedTypeArgs)
+    : getCallerParamTypes(functionDef.params);
+  // Type arguments only need their ABIs for an ability check
+  const constrainedTypeArgs = (normalizedTypeArgs ?? []).filter(
+    (_, index) => functionDef.generic_type_params?.[index]?.constraints?.length
+  );
+  const abis = [
+    moduleABI,
+    ...(await loadStructABIs([...constrainedTypeArgs, ...paramTypes], client)),
+  ];
+  if (normalizedTypeArgs) {
+    validateTypeArgs(functionDef, normalizedTypeArgs, abis);
+  }
+  return serializeArgsFromTypes(args, paramTypes, abis);
+}
@@ -0,0 +1,185 @@
+/**
+ * Networks known to the app. Extend through module augmentation (like
+ * `RegisteredWallets`) to add your own:
+ *
+ * ```ts
+ * declare module '@/lib/networks' {
+ *   interface RegisteredNetworks {
+ *     staging: true;
+ *   }
+ * }
+ * registerNetwork({ id: 'staging', ... });
+ * ```
+ */
+export interface RegisteredNetworks {
+  mainnet: true;
+  testnet: true;
+  devnet: true;
+  localnet: true;
+}
+
+export type NetworkId = Extract<keyof RegisteredNetworks, string>;
+
+export interface SupraNetwork {
+  id: NetworkId;
+  name: string;
+  chainId: string;
+  // Tried in order, the first one is the primary endpoint
+  rpcUrls: string[];
+  explorerUrl: string;
+  faucetUrl?: string;
+  // GraphQL indexer, used to find the fungible assets an account holds
+  indexerUrl?: string;
+  // Native coin
+  coinType: string;
+  coinName: string;
+  coinSymbol: string;
+  decimals: number;
+}
+
+const SUPRA_COIN = {
+  coinType: '0x1::supra_coin::SupraCoin',
+  coinName: 'Supra Coin',
+  coinSymbol: 'SUPRA',
+  decimals: 8,
+};
+
+const NETWORK_STORAGE_KEY = 'multiwallet.network';
+
+const networks = new Map<NetworkId, SupraNetwork>();
+const listeners = new Set<(network: SupraNetwork) => void>();
+
+export function registerNetwork(network: SupraNetwork) {
+  networks.set(network.id, network);
+}
+
+export function getNetwork(id: NetworkId): SupraNetwork {
+  const network = networks.get(id);
+  if (!network) {
+    throw new Error(`Unsupported network: ${id}`);
+  }
+  return network;
+}
+
+export function getNetworks(): SupraNetwork[] {
+  return Array.from(networks.values());
+}
+
+export function isNetworkId(value: unknown): value is NetworkId {
+  return typeof value === 'string' && networks.has(value as NetworkId);
+}
+
+export function getNetworkByChainId(chainId: string | number): SupraNetwork | undefined {
+  return getNetworks().find((network) => network.chainId === String(chainId));
+}
+
+export function getExplorerTxUrl(network: SupraNetwork, txHash: string) {
+  return `${network.explorerUrl}/tx/${txHash}`;
+}
+
+export function getExplorerAccountUrl(network: SupraNetwork, address: string) {
+  return `${network.explorerUrl}/account/${address}`;
+}
+
+// Built-in networks
+registerNetwork({
+  id: 'mainnet',
+  name: 'Supra Mainnet',
+  chainId: '8',
+  rpcUrls: ['https://rpc-mainnet.supra.com'],
+  explorerUrl: 'https://suprascan.io',
+  ...SUPRA_COIN,
+});
+
+registerNetwork({
+  id: 'testnet',
+  name: 'Supra Testnet',
+  chainId: '6',
+  rpcUrls: ['https://rpc-testnet.supra.com'],
+  explorerUrl: 'https://testnet.suprascan.io',
+  faucetUrl: 'https://rpc-testnet.supra.com/rpc/v1/wallet/faucet',
+  ...SUPRA_COIN,
+});
+
+registerNetwork({
+  id: 'devnet',
+  name: 'Supra Devnet',
+  chainId: process.env.NEXT_PUBLIC_SUPRA_DEVNET_CHAIN_ID || '3',
+  rpcUrls: [process.env.NEXT_PUBLIC_SUPRA_DEVNET_RPC_URL || 'https://rpc-devnet.supra.com'],
+  explorerUrl: 'https://testnet.suprascan.io',
+  faucetUrl: `${process.env.NEXT_PUBLIC_SUPRA_DEVNET_RPC_URL || 'https://rpc-devnet.supra.com'}/rpc/v1/wallet/faucet`,
+  ...SUPRA_COIN,
+});
+
+// Local node, point it somewhere else through the env
+registerNetwork({
+  id: 'localnet',
+  name: 'Localnet',
+  chainId: process.env.NEXT_PUBLIC_SUPRA_LOCALNET_CHAIN_ID || '255',
+  rpcUrls: [process.env.NEXT_PUBLIC_SUPRA_LOCALNET_RPC_URL || 'http://127.0.0.1:27001'],
+  explorerUrl: 'https://testnet.suprascan.io',
+  faucetUrl: `${process.env.NEXT_PUBLIC_SUPRA_LOCALNET_RPC_URL || 'http://127.0.0.1:27001'}/rpc/v1/wallet/faucet`,
+  ...SUPRA_COIN,
+});
+
+// Network from the env: NEXT_PUBLIC_SUPRA_NETWORK, else NEXT_PUBLIC_SUPRA_CHAIN_ID, else testnet
+const getDefaultNetwork = (): SupraNetwork => {
+  const id = process.env.NEXT_PUBLIC_SUPRA_NETWORK;
+  if (isNetworkId(id)) {
+    return getNetwork(id);
+  }
+
+  const chainId = process.env.NEXT_PUBLIC_SUPRA_CHAIN_ID;
+  return (chainId && getNetworkByChainId(chainId)) || getNetwork('testnet');
+};
+
+const getStoredNetworkId = (): NetworkId | null => {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+      if (isNetworkId(stored)) {
+        return stored;
+      }
+    }
+  } catch {
+    console.warn('localStorage read failed');
+  }
+  return null;
+};
+
+export const DEFAULT_NETWORK: SupraNetwork = getDefaultNetwork();
+
+let activeNetwork: SupraNetwork | null = null;
+
+// Network used for RPC calls, transactions and explorer links
+export function getActiveNetwork(): SupraNetwork {
+  if (!activeNetwork) {
+    const storedId = getStoredNetworkId();
+    activeNetwork = storedId ? getNetwork(storedId) : DEFAULT_NETWORK;
+  }
+  return activeNetwork;
+}
+
+export function setActiveNetwork(id: NetworkId) {
+  const network = getNetwork(id);
+  if (network === activeNetwork) return network;
+
+  activeNetwork = network;
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(NETWORK_STORAGE_KEY, id);
+    }
+  } catch {
+    console.warn('localStorage not available');
+  }
+
+  listeners.forEach((listener) => listener(network));
+  return network;
+}
+
+export function subscribeActiveNetwork(listener: (network: SupraNetwork) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
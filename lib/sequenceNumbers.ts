@@ -0,0 +1,129 @@
+import { getActiveNetwork, type SupraNetwork } from './networks';
+import { getRpcClient } from './supraRpcClient';
+import { standardizeAddress } from './utils';
+
+// Current sequence number of an account, e.g. to build a transaction
+export const getSequenceNumber = async (
+  address: string,
+  network: SupraNetwork = getActiveNetwork()
+): Promise<number> => {
+  const accountData = await getRpcClient(network).getAccountInfo(address);
+  return Number(accountData.sequence_number);
+};
+
+export interface SequenceNumberManagerOptions {
+  fetchSequenceNumber?: (address: string, network: SupraNetwork) => Promise<bigint>;
+}
+
+interface AccountSequence {
+  // Next number to hand out, null when it has to be fetched from the chain
+  next: bigint | null;
+  // Handed out and not yet confirmed or released
+  inFlight: Set<bigint>;
+  // Tail of the account's submission queue
+  queue: Promise<unknown>;
+}
+
+const fetchFromChain = async (address: string, network: SupraNetwork) =>
+  BigInt(await getSequenceNumber(address, network));
+
+/**
+ * Hands out sequence numbers per account and network so back-to-back
+ * transactions don't collide. Numbers come from the chain while nothing is in
+ * flight and are counted up locally otherwise; a number that never made it on
+ * chain is handed out again so later transactions aren't stuck behind the gap.
+ */
+export function createSequenceNumberManager({
+  fetchSequenceNumber = fetchFromChain,
+}: SequenceNumberManagerOptions = {}) {
+  const accounts = new Map<string, AccountSequence>();
+
+  const getAccount = (address: string, network: SupraNetwork) => {
+    const key = `${network.id}:${standardizeAddress(address)}`;
+    let account = accounts.get(key);
+    if (!account) {
+      account = { next: null, inFlight: new Set(), queue: Promise.resolve() };
+      accounts.set(key, account);
+    }
+    return account;
+  };
+
+  const reserve = async (address: string, network: SupraNetwork = getActiveNetwork()) => {
+    const account = getAccount(address, network);
+
+    if (account.next === null || account.inFlight.size === 0) {
+      const onChain = await fetchSequenceNumber(address, network);
+      // The chain is ahead when the account sent transactions from elsewhere
+      if (account.next === null || onChain > account.next) {
+        account.next = onChain;
+      }
+    }
+
+    let sequenceNumber = account.next!;
+    while (account.inFlight.has(sequenceNumber)) {
+      sequenceNumber += BigInt(1);
+    }
+    account.next = sequenceNumber + BigInt(1);
+    account.inFlight.add(sequenceNumber);
+    return sequenceNumber;
+  };
+
+  // The transaction landed on chain, executed or failed, and used up its number
+  const confirm = (
+    address: string,
+    sequenceNumber: bigint,
+    network: SupraNetwork = getActiveNetwork()
+  ) => {
+    getAccount(address, network).inFlight.delete(sequenceNumber);
+  };
+
+  // The number was never used (rejected, not submitted or expired)
+  const release = (
+    address: string,
+    sequenceNumber: bigint,
+    network: SupraNetwork = getActiveNetwork()
+  ) => {
+    const account = getAccount(address, network);
+    account.inFlight.delete(sequenceNumber);
+    if (account.next !== null && sequenceNumber < account.next) {
+      account.next = sequenceNumber;
+    }
+  };
+
+  // Runs submissions for an account one at a time, each with its own number
+  const enqueue = <T>(
+    address: string,
+    network: SupraNetwork,
+    submit: (sequenceNumber: bigint) => Promise<T>
+  ): Promise<T> => {
+    const account = getAccount(address, network);
+
+    const run = async () => {
+      const sequenceNumber = await reserve(address, network);
+      try {
+        return await submit(sequenceNumber);
+      } catch (error) {
+        release(address, sequenceNumber, network);
+        throw error;
+      }
+    };
+
+    const result = account.queue.then(run);
+    account.queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const reset = () => {
+    accounts.clear();
+  };
+
+  return {
+    reserve,
+    confirm,
+    release,
+    enqueue,
+    reset,
+  };
+}
+
+export type SequenceNumberManager = ReturnType<typeof createSequenceNumberManager>;
@@ -0,0 +1,464 @@
+import { getActiveNetwork, type NetworkId, type SupraNetwork } from './networks';
+import type { ModuleABI } from './abiStorage';
+
+// Account as returned by /rpc/v1/accounts/{address}
+export interface SupraAccountInfo {
+  sequence_number: number;
+  authentication_key: string;
+}
+
+export interface SupraMoveResource<T = unknown> {
+  type: string;
+  data: T;
+}
+
+export interface SupraMoveModule {
+  bytecode: string;
+  abi: ModuleABI;
+}
+
+export interface SupraViewRequest {
+  // Fully qualified function, e.g. 0x1::coin::balance
+  function: string;
+  type_arguments: string[];
+  arguments: unknown[];
+}
+
+export interface SupraEvent<T = unknown> {
+  type: string;
+  guid?: unknown;
+  sequence_number?: string;
+  data: T;
+}
+
+export type SupraTransactionStatus = 'Success' | 'Fail' | 'Pending' | 'Invalid';
+
+export interface SupraTransaction {
+  hash: string;
+  status: SupraTransactionStatus;
+  header?: {
+    sender?: { Move?: string } | string;
+    sequence_number?: number;
+    gas_unit_price?: number;
+    max_gas_amount?: number;
+    expiration_timestamp?: { microseconds_since_unix_epoch?: number };
+    chain_id?: number;
+  };
+  payload?: unknown;
+  output?: {
+    Move?: {
+      gas_used?: number;
+      events?: SupraEvent[];
+      vm_status?: string;
+    };
+  };
+  block_header?: {
+    height?: number;
+    timestamp?: { microseconds_since_unix_epoch?: number };
+  };
+  [key: string]: unknown;
+}
+
+// Gas unit prices recently paid on the network
+export interface SupraGasPrice {
+  mean_gas_price: number;
+  max_gas_price: number;
+  median_gas_price?: number;
+}
+
+// Unsigned transaction as accepted by /rpc/v1/transactions/simulate, u64 values
+// as decimal strings so they keep their precision
+export interface SupraSimulationPayload {
+  Move: {
+    raw_txn: {
+      sender: string;
+      sequence_number: string;
+      payload: {
+        EntryFunction: {
+          module: { address: string; name: string };
+          function: string;
+          ty_args: unknown[];
+          // BCS encoded arguments as byte arrays
+          args: number[][];
+        };
+      };
+      max_gas_amount: string;
+      gas_unit_price: string;
+      expiration_timestamp_secs: string;
+      chain_id: number;
+    };
+    authenticator: {
+      Ed25519: { public_key: string; signature: string };
+    };
+  };
+}
+
+export interface SupraEventQuery {
+  startHeight?: number;
+  endHeight?: number;
+  limit?: number;
+}
+
+export interface SupraAccountTransactionsQuery {
+  // Max number of transactions to return
+  count?: number;
+  // Sequence number to start from
+  start?: number;
+  ascending?: boolean;
+}
+
+// One page of a listing, `cursor` is where the next one starts
+interface SupraPage<T> {
+  items: T[];
+  cursor?: string;
+}
+
+export interface RpcCallOptions {
+  // Per-attempt timeout in ms
+  timeout?: number;
+  // Extra attempts after the first one, spread across the endpoints
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+export interface SupraRpcClientOptions extends RpcCallOptions {
+  network?: SupraNetwork;
+  // Defaults to the network's RPC URLs
+  endpoints?: string[];
+  // Backoff between attempts: baseDelay * 2^attempt, capped at maxDelay
+  baseDelay?: number;
+  maxDelay?: number;
+  fetch?: typeof fetch;
+}
+
+// Error response from the node, or a transport failure when status is undefined
+export class SupraRpcError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly status?: number,
+    public readonly body?: unknown
+  ) {
+    super(message);
+    this.name = 'SupraRpcError';
+  }
+}
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY = 300;
+const DEFAULT_MAX_DELAY = 5000;
+const DEFAULT_PAGE_SIZE = 100;
+const CURSOR_HEADER = 'x-supra-cursor';
+
+// Ends early when the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+
+// Transport failures, timeouts, rate limits and server errors are worth another try
+const isRetryable = (error: unknown) => {
+  if (!(error instanceof SupraRpcError)) return true;
+  return error.status === undefined || error.status === 429 || error.status >= 500;
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+interface RpcResponse {
+  body: unknown;
+  cursor?: string;
+}
+
+/**
+ * Typed client for the Supra RPC API. Each call is retried with exponential
+ * backoff, moving to the next endpoint after a failure, and identical
+ * requests that are already in flight share one network round trip.
+ */
+export function createSupraRpcClient({
+  network = getActiveNetwork(),
+  endpoints = network.rpcUrls,
+  timeout: defaultTimeout = DEFAULT_TIMEOUT,
+  retries: defaultRetries = DEFAULT_RETRIES,
+  baseDelay = DEFAULT_BASE_DELAY,
+  maxDelay = DEFAULT_MAX_DELAY,
+  fetch: fetchImpl,
+}: SupraRpcClientOptions = {}) {
+  if (!endpoints.length) {
+    throw new Error(`No RPC endpoints configured for ${network.name}`);
+  }
+
+  const urls = endpoints.map(trimSlash);
+  const inFlight = new Map<string, Promise<RpcResponse>>();
+  // Endpoint that answered last, tried first next time
+  let preferred = 0;
+
+  const attempt = async (
+    url: string,
+    init: RequestInit,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<RpcResponse> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    try {
+      const response = await (fetchImpl ?? fetch)(url, {
+        ...init,
+        signal: controller.signal,
+      });
+      const text = await response.text();
+      let body: unknown = text;
+      try {
+        body = text ? JSON.parse(text) : null;
+      } catch {
+        // Not JSON, keep the raw text
+      }
+
+      if (!response.ok) {
+        throw new SupraRpcError(
+          `RPC request failed with ${response.status}: ${response.statusText}`,
+          url,
+          response.status,
+          body
+        );
+      }
+      return { body, cursor: response.headers.get(CURSOR_HEADER) || undefined };
+    } catch (error) {
+      if (error instanceof SupraRpcError) throw error;
+      const reason = controller.signal.aborted && !signal?.aborted
+        ? `timed out after ${timeout}ms`
+        : error instanceof Error ? error.message : String(error);
+      throw new SupraRpcError(`RPC request failed: ${reason}`, url);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  };
+
+  const send = async (
+    path: string,
+    init: RequestInit,
+    { timeout = defaultTimeout, retries = defaultRetries, signal }: RpcCallOptions
+  ): Promise<RpcResponse> => {
+    let lastError: unknown;
+
+    for (let i = 0; i <= retries; i++) {
+      if (signal?.aborted) {
+        throw new SupraRpcError('RPC request aborted', urls[preferred] + path);
+      }
+
+      const index = (preferred + i) % urls.length;
+      try {
+        const response = await attempt(urls[index] + path, init, timeout, signal);
+        preferred = index;
+        return response;
+      } catch (error) {
+        // Cancelled by the caller, not a failure of the endpoint
+        if (signal?.aborted) throw error;
+        lastError = error;
+        if (!isRetryable(error) || i === retries) break;
+        await sleep(Math.min(baseDelay * 2 ** i, maxDelay), signal);
+      }
+    }
+    throw lastError;
+  };
+
+  // Shares one request between identical calls made while it's pending
+  const sendShared = (path: string, init: RequestInit, options: RpcCallOptions) => {
+    // An abortable call gets its own round trip, aborting it mustn't fail the others
+    if (options.signal) {
+      return send(path, init, options);
+    }
+
+    const key = `${init.method ?? 'GET'} ${path} ${typeof init.body === 'string' ? init.body : ''}`;
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = send(path, init, options).finally(() => {
+      inFlight.delete(key);
+    });
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  const request = async <T>(
+    path: string,
+    init: RequestInit = {},
+    options: RpcCallOptions = {}
+  ): Promise<T> => (await sendShared(path, init, options)).body as T;
+
+  // A page of a listing returned as an array or under `field`, with the cursor
+  // from the response header or the body
+  const requestPage = async <T>(
+    path: string,
+    field: string,
+    options: RpcCallOptions = {}
+  ): Promise<SupraPage<T>> => {
+    const { body, cursor } = await sendShared(path, {}, options);
+    const record = (body ?? {}) as Record<string, unknown>;
+    const items = Array.isArray(body) ? body : record[field];
+    const bodyCursor = typeof record.cursor === 'string' ? record.cursor : undefined;
+    return { items: Array.isArray(items) ? (items as T[]) : [], cursor: cursor ?? bodyCursor };
+  };
+
+  // Every page of a listing, following the cursor until the last one
+  const requestAllPages = async <T>(path: string, field: string, options?: RpcCallOptions) => {
+    const items: T[] = [];
+    const seen = new Set<string>();
+    let cursor: string | undefined;
+
+    do {
+      const params = new URLSearchParams({ count: String(DEFAULT_PAGE_SIZE) });
+      if (cursor) params.set('start', cursor);
+      const page = await requestPage<T>(`${path}?${params}`, field, options);
+      items.push(...page.items);
+      // A repeated cursor would loop forever
+      cursor = page.items.length && page.cursor && !seen.has(page.cursor) ? page.cursor : undefined;
+      if (cursor) seen.add(cursor);
+    } while (cursor);
+
+    return items;
+  };
+
+  const post = <T>(path: string, body: unknown, options?: RpcCallOptions) =>
+    request<T>(
+      path,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+      options
+    );
+
+  const getAccountInfo = (address: string, options?: RpcCallOptions) =>
+    request<SupraAccountInfo>(`/rpc/v1/accounts/${address}`, {}, options);
+
+  // Every resource of the account, across all pages
+  const getAccountResources = (address: string, options?: RpcCallOptions) =>
+    requestAllPages<SupraMoveResource>(`/rpc/v3/accounts/${address}/resources`, 'resources', options);
+
+  const getAccountResource = <T = unknown>(
+    address: string,
+    resourceType: string,
+    options?: RpcCallOptions
+  ) =>
+    request<SupraMoveResource<T>>(
+      `/rpc/v3/accounts/${address}/resources/${encodeURIComponent(resourceType)}`,
+      {},
+      options
+    );
+
+  // Every module published by the account, across all pages
+  const getAccountModules = (address: string, options?: RpcCallOptions) =>
+    requestAllPages<SupraMoveModule>(`/rpc/v3/accounts/${address}/modules`, 'modules', options);
+
+  const getAccountModule = (address: string, moduleName: string, options?: RpcCallOptions) =>
+    request<SupraMoveModule>(`/rpc/v3/accounts/${address}/modules/${moduleName}`, {}, options);
+
+  const view = async <T extends unknown[] = unknown[]>(
+    payload: SupraViewRequest,
+    options?: RpcCallOptions
+  ) => {
+    const body = await post<{ result: T }>('/rpc/v1/view', payload, options);
+    return body.result;
+  };
+
+  const getGasPrice = (options?: RpcCallOptions) =>
+    request<SupraGasPrice>('/rpc/v1/transactions/estimate_gas_price', {}, options);
+
+  // Executes the transaction without committing it
+  const simulateTransaction = (payload: SupraSimulationPayload, options?: RpcCallOptions) =>
+    post<SupraTransaction>('/rpc/v1/transactions/simulate', payload, options);
+
+  // Resolves to null while the node doesn't know the hash yet
+  const getTransactionByHash = async (hash: string, options?: RpcCallOptions) => {
+    try {
+      return await request<SupraTransaction>(`/rpc/v3/transactions/${hash}`, {}, options);
+    } catch (error) {
+      if (error instanceof SupraRpcError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  // Transactions sent by the account, newest first unless ascending is set
+  const getAccountTransactions = async (
+    address: string,
+    { count, start, ascending }: SupraAccountTransactionsQuery = {},
+    options?: RpcCallOptions
+  ) => {
+    const params = new URLSearchParams();
+    if (count !== undefined) params.set('count', String(count));
+    if (start !== undefined) params.set('start', String(start));
+    if (ascending !== undefined) params.set('ascending', String(ascending));
+    const query = params.toString();
+
+    const body = await request<SupraTransaction[] | { record?: SupraTransaction[] }>(
+      `/rpc/v3/accounts/${address}/transactions${query ? `?${query}` : ''}`,
+      {},
+      options
+    );
+    return Array.isArray(body) ? body : body?.record ?? [];
+  };
+
+  const getEvents = async <T = unknown>(
+    eventType: string,
+    { startHeight, endHeight, limit }: SupraEventQuery = {},
+    options?: RpcCallOptions
+  ) => {
+    const params = new URLSearchParams();
+    if (startHeight !== undefined) params.set('start_height', String(startHeight));
+    if (endHeight !== undefined) params.set('end_height', String(endHeight));
+    if (limit !== undefined) params.set('limit', String(limit));
+    const query = params.toString();
+
+    const body = await request<SupraEvent<T>[] | { data?: SupraEvent<T>[] }>(
+      `/rpc/v3/events/${encodeURIComponent(eventType)}${query ? `?${query}` : ''}`,
+      {},
+      options
+    );
+    return Array.isArray(body) ? body : body?.data ?? [];
+  };
+
+  return {
+    network,
+    endpoints: urls,
+    request,
+    getAccountInfo,
+    getAccountResources,
+    getAccountResource,
+    getAccountModules,
+    getAccountModule,
+    view,
+    getGasPrice,
+    simulateTransaction,
+    getTransactionByHash,
+    getAccountTransactions,
+    getEvents,
+  };
+}
+
+export type SupraRpcClient = ReturnType<typeof createSupraRpcClient>;
+
+const clients = new Map<NetworkId, SupraRpcClient>();
+
+// Shared client for a network (the active one by default)
+export function getRpcClient(network: SupraNetwork = getActiveNetwork()): SupraRpcClient {
+  let client = clients.get(network.id);
+  if (!client || client.network !== network) {
+    client = createSupraRpcClient({ network });
+    clients.set(network.id, client);
+  }
+  return client;
+}
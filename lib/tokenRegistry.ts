@@ -0,0 +1,173 @@
+import { formatAmount, type FormatAmountOptions } from './amounts';
+import { getActiveNetwork, type SupraNetwork } from './networks';
+import { getRpcClient, type SupraRpcClient } from './supraRpcClient';
+import { formatTypeTag, parseTypeTag } from './typeTags';
+import { standardizeAddress } from './utils';
+
+export type TokenKind = 'coin' | 'fungible_asset';
+
+export interface TokenInfo {
+  // Coin type in the short form, or the standardized metadata address of a fungible asset
+  id: string;
+  kind: TokenKind;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoUri?: string;
+  // Vouched for by the app through an override, the native coin always is
+  verified: boolean;
+}
+
+// App-provided changes to what the chain reports
+export interface TokenOverride {
+  displayName?: string;
+  symbol?: string;
+  logoUri?: string;
+  verified?: boolean;
+}
+
+// From 0x1::coin::CoinInfo for coins, 0x1::fungible_asset::Metadata for fungible assets
+interface TokenMetadata {
+  name: string;
+  symbol: string;
+  decimals: number;
+  iconUri?: string;
+}
+
+interface CoinInfoResource {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+interface FungibleAssetMetadataResource extends CoinInfoResource {
+  icon_uri?: string;
+}
+
+const overrides = new Map<string, TokenOverride>();
+// Metadata doesn't change, lookups are kept per network for the session
+const metadataCache = new Map<string, Promise<TokenMetadata>>();
+
+// Coin types contain "::", fungible assets are identified by their metadata address
+export const getTokenKind = (token: string): TokenKind =>
+  token.includes('::') ? 'coin' : 'fungible_asset';
+
+// Registry key of a coin type or metadata address, so 0x01::a::B and 0x1::a::B match
+export const normalizeTokenId = (token: string) =>
+  getTokenKind(token) === 'coin'
+    ? formatTypeTag(parseTypeTag(token), { short: true })
+    : standardizeAddress(token.trim().toLowerCase());
+
+/**
+ * Overrides the display name, symbol or logo of tokens and marks them as
+ * verified, keyed by coin type or metadata address. Later calls are merged
+ * into earlier ones.
+ */
+export function registerTokenOverrides(entries: Record<string, TokenOverride>) {
+  Object.entries(entries).forEach(([token, override]) => {
+    const id = normalizeTokenId(token);
+    overrides.set(id, { ...overrides.get(id), ...override });
+  });
+}
+
+export function clearTokenOverrides() {
+  overrides.clear();
+}
+
+const isNativeToken = (id: string, network: SupraNetwork) =>
+  id === normalizeTokenId(network.coinType);
+
+const toTokenInfo = (
+  id: string,
+  metadata: TokenMetadata,
+  network: SupraNetwork
+): TokenInfo => {
+  const override = overrides.get(id) ?? {};
+  return {
+    id,
+    kind: getTokenKind(id),
+    name: override.displayName ?? metadata.name,
+    symbol: override.symbol ?? metadata.symbol,
+    decimals: metadata.decimals,
+    logoUri: override.logoUri ?? metadata.iconUri,
+    verified: override.verified ?? isNativeToken(id, network),
+  };
+};
+
+// Native coin of the network, from its config so it's available without a request
+export const getNativeToken = (network: SupraNetwork = getActiveNetwork()): TokenInfo =>
+  toTokenInfo(
+    normalizeTokenId(network.coinType),
+    { name: network.coinName, symbol: network.coinSymbol, decimals: network.decimals },
+    network
+  );
+
+const loadCoinMetadata = async (
+  client: SupraRpcClient,
+  coinType: string
+): Promise<TokenMetadata> => {
+  const tag = parseTypeTag(coinType);
+  if (tag.kind !== 'struct') {
+    throw new Error(`${coinType} is not a coin type`);
+  }
+  const { data } = await client.getAccountResource<CoinInfoResource>(
+    tag.address,
+    `0x1::coin::CoinInfo<${coinType}>`
+  );
+  return { name: data.name, symbol: data.symbol, decimals: Number(data.decimals) };
+};
+
+const loadFungibleAssetMetadata = async (
+  client: SupraRpcClient,
+  metadataAddress: string
+): Promise<TokenMetadata> => {
+  const { data } = await client.getAccountResource<FungibleAssetMetadataResource>(
+    metadataAddress,
+    '0x1::fungible_asset::Metadata'
+  );
+  return {
+    name: data.name,
+    symbol: data.symbol,
+    decimals: Number(data.decimals),
+    iconUri: data.icon_uri || undefined,
+  };
+};
+
+/**
+ * Token info for a coin type or fungible asset metadata address: name,
+ * symbol, decimals and icon from CoinInfo<T> / fungible_asset::Metadata with
+ * the app's overrides applied. Chain lookups are cached per network for the
+ * session, failed ones are retried next time.
+ */
+export async function resolveToken(
+  token: string,
+  network: SupraNetwork = getActiveNetwork(),
+  client: SupraRpcClient = getRpcClient(network)
+): Promise<TokenInfo> {
+  const id = normalizeTokenId(token);
+  if (isNativeToken(id, network)) {
+    return getNativeToken(network);
+  }
+
+  const key = `${network.id}:${id}`;
+  let metadata = metadataCache.get(key);
+  if (!metadata) {
+    metadata = (
+      getTokenKind(id) === 'coin'
+        ? loadCoinMetadata(client, id)
+        : loadFungibleAssetMetadata(client, id)
+    ).catch((error) => {
+      metadataCache.delete(key);
+      throw error;
+    });
+    metadataCache.set(key, metadata);
+  }
+  return toTokenInfo(id, await metadata, network);
+}
+
+// e.g. "1.5 SUPRA" for 150000000 base units
+export const formatTokenAmount = (
+  amount: bigint | number | string,
+  token: Pick<TokenInfo, 'symbol' | 'decimals'>,
+  options?: FormatAmountOptions
+) => `${formatAmount(amount, token.decimals, options)} ${token.symbol}`;
@@ -0,0 +1,141 @@
+import { deserializeValueByType } from './moveSerialization';
+import { getActiveNetwork, type SupraNetwork } from './networks';
+import { getRpcClient, type SupraRpcClient } from './supraRpcClient';
+import {
+  formatTokenAmount,
+  getNativeToken,
+  getTokenKind,
+  resolveToken,
+  type TokenInfo,
+} from './tokenRegistry';
+import type { TrackedTransaction } from './transactionTracker';
+import { formatTypeTag, parseTypeTag } from './typeTags';
+import { standardizeAddress } from './utils';
+
+// What a transaction did, in the terms shown to the user
+export interface TransactionDescription {
+  // e.g. "Send 1.50 SUPRA to 0x1234…abcd" or "supra_account::register<USDC>"
+  summary: string;
+  // Transfers only, the token is missing when the registry can't resolve it
+  token?: TokenInfo;
+  amount?: bigint;
+  recipient?: string;
+}
+
+// Where a transfer's token, recipient and amount are found
+interface TransferLayout {
+  // The network's native coin, the first type argument, or the metadata object argument
+  token: 'native' | 'typeArg' | 'metadataArg';
+  to: number;
+  amount: number;
+}
+
+const TRANSFERS: Record<string, TransferLayout> = {
+  'supra_account::transfer': { token: 'native', to: 0, amount: 1 },
+  'supra_account::transfer_coins': { token: 'typeArg', to: 0, amount: 1 },
+  'coin::transfer': { token: 'typeArg', to: 0, amount: 1 },
+  'primary_fungible_store::transfer': { token: 'metadataArg', to: 1, amount: 2 },
+};
+
+const FRAMEWORK_ADDRESS = standardizeAddress('0x1');
+
+const shortAddress = (address: string) => {
+  const standard = standardizeAddress(address);
+  return `${standard.slice(0, 6)}…${standard.slice(-4)}`;
+};
+
+// Argument as the RPC reports it, or decoded from the BCS kept for transactions sent here
+const getArgument = (transaction: TrackedTransaction, index: number, type: string) => {
+  const value = transaction.arguments?.[index];
+  if (value !== undefined) {
+    // Objects come as { inner: address }
+    return (value as { inner?: unknown } | null)?.inner ?? value;
+  }
+  const encoded = transaction.encodedArguments?.[index];
+  return encoded === undefined ? undefined : deserializeValueByType(encoded, type);
+};
+
+// Symbol of a coin type argument, its short form when the registry can't resolve it
+const describeTypeArg = async (
+  typeArg: string,
+  network: SupraNetwork,
+  client: SupraRpcClient
+) => {
+  const short = formatTypeTag(parseTypeTag(typeArg), { short: true });
+  try {
+    return getTokenKind(short) === 'coin'
+      ? (await resolveToken(short, network, client)).symbol
+      : short;
+  } catch {
+    return short;
+  }
+};
+
+const describeTransfer = async (
+  transaction: TrackedTransaction,
+  layout: TransferLayout,
+  network: SupraNetwork,
+  client: SupraRpcClient
+): Promise<TransactionDescription | null> => {
+  const rawAmount = getArgument(transaction, layout.amount, 'u64');
+  const recipient = getArgument(transaction, layout.to, 'address');
+  const tokenId =
+    layout.token === 'native'
+      ? getNativeToken(network).id
+      : layout.token === 'typeArg'
+        ? transaction.typeArgs?.[0]
+        : getArgument(transaction, 0, 'address');
+  if (rawAmount === undefined || typeof recipient !== 'string' || typeof tokenId !== 'string') {
+    return null;
+  }
+
+  const amount = BigInt(String(rawAmount));
+  const token = await resolveToken(tokenId, network, client).catch(() => undefined);
+  // Unknown tokens keep their base units and id rather than guessing the decimals
+  const formatted = token
+    ? formatTokenAmount(amount, token)
+    : `${amount} ${await describeTypeArg(tokenId, network, client)}`;
+  return {
+    summary: `Send ${formatted} to ${shortAddress(recipient)}`,
+    token,
+    amount,
+    recipient: standardizeAddress(recipient),
+  };
+};
+
+/**
+ * Describes a transaction for the history: transfers of coins and fungible
+ * assets with the amount formatted through the token registry, other calls
+ * as module::function with their coin type arguments shown by symbol. Never
+ * rejects, whatever can't be read falls back to the raw values.
+ */
+export async function describeTransaction(
+  transaction: TrackedTransaction,
+  network: SupraNetwork = getActiveNetwork(),
+  client: SupraRpcClient = getRpcClient(network)
+): Promise<TransactionDescription> {
+  if (!transaction.function) {
+    return { summary: 'Transaction' };
+  }
+
+  const [address, moduleName, functionName] = transaction.function.split('::');
+  const name = `${moduleName}::${functionName}`;
+
+  try {
+    const layout = TRANSFERS[name];
+    if (layout && standardizeAddress(address) === FRAMEWORK_ADDRESS) {
+      const transfer = await describeTransfer(transaction, layout, network, client);
+      if (transfer) return transfer;
+    }
+
+    const typeArgs = transaction.typeArgs ?? [];
+    if (!typeArgs.length) return { summary: name };
+    const symbols = await Promise.all(
+      typeArgs.map((typeArg) => describeTypeArg(typeArg, network, client))
+    );
+    return { summary: `${name}<${symbols.join(', ')}>` };
+  } catch (error) {
+    console.warn(`Error describing transaction ${transaction.hash}:`, error);
+    return { summary: name };
+  }
+}
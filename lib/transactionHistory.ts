@@ -0,0 +1,272 @@
+import { openDatabase, requestToPromise } from './indexedDB';
+import { getNetwork, type NetworkId } from './networks';
+import { getRpcClient, type SupraRpcClient } from './supraRpcClient';
+import type { TransactionDescription } from './transactionDescriptions';
+import {
+  parseRpcTransaction,
+  type TrackedTransaction,
+  type TransactionStatus,
+} from './transactionTracker';
+import { standardizeAddress } from './utils';
+
+// A transaction as stored in the history of one account on one network
+export interface TransactionHistoryRecord extends TrackedTransaction {
+  network: NetworkId;
+  address: string;
+}
+
+export interface TransactionHistoryFilter {
+  status?: TransactionStatus | TransactionStatus[];
+  // Case-insensitive match against module_address::module_name::function_name
+  function?: string;
+}
+
+export type TransactionExportFormat = 'csv' | 'json';
+
+export interface TransactionHistoryOptions {
+  dbName?: string;
+  // How many on-chain transactions to fetch when syncing
+  syncCount?: number;
+}
+
+const DB_NAME = 'multiwallet';
+const DB_VERSION = 1;
+const STORE_NAME = 'transactions';
+const ACCOUNT_INDEX = 'account';
+const DEFAULT_SYNC_COUNT = 50;
+
+const CSV_COLUMNS = [
+  'hash',
+  'status',
+  'function',
+  'description',
+  'sender',
+  'network',
+  'chainId',
+  'submittedAt',
+  'gasUsed',
+  'vmStatus',
+] as const;
+
+const createObjectStores = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORE_NAME)) {
+    const store = db.createObjectStore(STORE_NAME, {
+      keyPath: ['network', 'address', 'hash'],
+    });
+    store.createIndex(ACCOUNT_INDEX, ['network', 'address']);
+  }
+};
+
+const accountKey = (network: NetworkId, address: string) => `${network}:${address}`;
+
+const newestFirst = (a: TrackedTransaction, b: TrackedTransaction) =>
+  b.submittedAt - a.submittedAt;
+
+export function filterTransactions<T extends TrackedTransaction>(
+  transactions: T[],
+  { status, function: fn }: TransactionHistoryFilter = {}
+): T[] {
+  const statuses = status === undefined ? null : Array.isArray(status) ? status : [status];
+  const search = fn?.toLowerCase();
+
+  return transactions.filter(
+    (txn) =>
+      (!statuses || statuses.includes(txn.status)) &&
+      (!search || !!txn.function?.toLowerCase().includes(search))
+  );
+}
+
+const toCsvValue = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Serializes transactions for support requests and spreadsheets, with their
+// descriptions (from describeTransaction, by hash) when given
+export function exportTransactions(
+  transactions: TrackedTransaction[],
+  format: TransactionExportFormat,
+  descriptions: Record<string, TransactionDescription> = {}
+): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      transactions.map((txn) => ({ ...txn, description: descriptions[txn.hash]?.summary })),
+      null,
+      2
+    );
+  }
+
+  const rows = transactions.map((txn) =>
+    CSV_COLUMNS.map((column) => {
+      if (column === 'submittedAt') return toCsvValue(new Date(txn.submittedAt).toISOString());
+      if (column === 'description') return toCsvValue(descriptions[txn.hash]?.summary);
+      return toCsvValue((txn as Partial<TransactionHistoryRecord>)[column]);
+    }).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+// Saves the export as a file through the browser
+export function downloadTransactions(
+  transactions: TrackedTransaction[],
+  format: TransactionExportFormat,
+  filename = `transactions.${format}`,
+  descriptions?: Record<string, TransactionDescription>
+) {
+  const blob = new Blob([exportTransactions(transactions, format, descriptions)], {
+    type: format === 'json' ? 'application/json' : 'text/csv',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Transaction history per wallet address and network, persisted to
+ * IndexedDB and merged with the account's on-chain history. Falls back to
+ * memory where IndexedDB isn't available (server, private browsing).
+ */
+export function createTransactionHistory({
+  dbName = DB_NAME,
+  syncCount = DEFAULT_SYNC_COUNT,
+}: TransactionHistoryOptions = {}) {
+  let database: Promise<IDBDatabase | null> | null = null;
+  const memory = new Map<string, Map<string, TransactionHistoryRecord>>();
+
+  const getDatabase = () => {
+    if (!database) {
+      database =
+        typeof indexedDB === 'undefined'
+          ? Promise.resolve(null)
+          : openDatabase(dbName, DB_VERSION, createObjectStores).catch((error) => {
+              console.warn('IndexedDB not available, keeping history in memory:', error);
+              return null;
+            });
+    }
+    return database;
+  };
+
+  const getMemoryRecords = (network: NetworkId, address: string) => {
+    const key = accountKey(network, address);
+    let records = memory.get(key);
+    if (!records) {
+      records = new Map();
+      memory.set(key, records);
+    }
+    return records;
+  };
+
+  const saveMany = async (
+    network: NetworkId,
+    address: string,
+    transactions: TrackedTransaction[]
+  ) => {
+    const owner = standardizeAddress(address);
+    const records = transactions.map((txn) => ({ ...txn, network, address: owner }));
+
+    const db = await getDatabase();
+    if (!db) {
+      const stored = getMemoryRecords(network, owner);
+      records.forEach((record) => stored.set(record.hash, record));
+      return;
+    }
+
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    records.forEach((record) => store.put(record));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  };
+
+  const save = (network: NetworkId, address: string, transaction: TrackedTransaction) =>
+    saveMany(network, address, [transaction]);
+
+  // Stored history of the account, newest first
+  const getHistory = async (
+    network: NetworkId,
+    address: string,
+    filter?: TransactionHistoryFilter
+  ): Promise<TransactionHistoryRecord[]> => {
+    const owner = standardizeAddress(address);
+    const db = await getDatabase();
+
+    const records = db
+      ? await requestToPromise<TransactionHistoryRecord[]>(
+          db
+            .transaction(STORE_NAME, 'readonly')
+            .objectStore(STORE_NAME)
+            .index(ACCOUNT_INDEX)
+            .getAll([network, owner])
+        )
+      : Array.from(getMemoryRecords(network, owner).values());
+
+    return filterTransactions(records.sort(newestFirst), filter);
+  };
+
+  // Merges the account's recent on-chain transactions into its history
+  const sync = async (
+    network: NetworkId,
+    address: string,
+    filter?: TransactionHistoryFilter,
+    client: SupraRpcClient = getRpcClient(getNetwork(network))
+  ) => {
+    const supraNetwork = getNetwork(network);
+    const [stored, onChain] = await Promise.all([
+      getHistory(network, address),
+      client.getAccountTransactions(address, { count: syncCount }),
+    ]);
+    const known = new Map(stored.map((record) => [record.hash, record]));
+
+    const merged = onChain.map((txn) => {
+      const chainRecord = parseRpcTransaction(txn, supraNetwork.chainId);
+      const local = known.get(chainRecord.hash);
+      // The chain is authoritative on the outcome, local records know when they were sent
+      return local
+        ? {
+            ...local,
+            ...chainRecord,
+            function: chainRecord.function ?? local.function,
+            typeArgs: chainRecord.typeArgs ?? local.typeArgs,
+            arguments: chainRecord.arguments ?? local.arguments,
+            submittedAt: local.submittedAt,
+            expiresAt: local.expiresAt,
+          }
+        : chainRecord;
+    });
+
+    await saveMany(network, address, merged);
+    return getHistory(network, address, filter);
+  };
+
+  const clear = async (network: NetworkId, address: string) => {
+    const owner = standardizeAddress(address);
+    const db = await getDatabase();
+    if (!db) {
+      memory.delete(accountKey(network, owner));
+      return;
+    }
+
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const keys = await requestToPromise(store.index(ACCOUNT_INDEX).getAllKeys([network, owner]));
+    await Promise.all(keys.map((key) => requestToPromise(store.delete(key))));
+  };
+
+  return {
+    save,
+    saveMany,
+    getHistory,
+    sync,
+    clear,
+  };
+}
+
+export type TransactionHistory = ReturnType<typeof createTransactionHistory>;
+
+// History shared by the wallet store
+export const transactionHistory = createTransactionHistory();
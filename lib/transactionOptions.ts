@@ -0,0 +1,88 @@
+import { getActiveNetwork, type SupraNetwork } from './networks';
+import { getRpcClient, type SupraRpcClient } from './supraRpcClient';
+
+// Defaults mirroring what the wallets put on real transactions
+export const DEFAULT_MAX_GAS_AMOUNT = 500000;
+export const DEFAULT_GAS_UNIT_PRICE = 100;
+export const DEFAULT_EXPIRY_SECONDS = 300;
+
+const U64_MAX = BigInt('18446744073709551615');
+
+export interface TransactionOptions {
+  maxGasAmount?: bigint | number;
+  gasUnitPrice?: bigint | number;
+  // Unix seconds after which the transaction can no longer be executed
+  expirationTimestampSecs?: bigint | number;
+  // Skips the per-account queue and uses this number as is
+  sequenceNumber?: bigint | number;
+}
+
+export interface ResolvedTransactionOptions {
+  maxGasAmount: bigint;
+  gasUnitPrice: bigint;
+  expirationTimestampSecs: bigint;
+  sequenceNumber?: bigint;
+}
+
+const toU64 = (name: string, value: bigint | number, min: bigint) => {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new Error(`Invalid transaction options: ${name} must be an integer`);
+  }
+  const result = BigInt(value);
+  if (result < min || result > U64_MAX) {
+    throw new Error(`Invalid transaction options: ${name} must be between ${min} and ${U64_MAX}`);
+  }
+  return result;
+};
+
+// Throws on options a node would reject, e.g. zero gas or an expiry in the past
+export function validateTransactionOptions(options: TransactionOptions = {}) {
+  const { maxGasAmount, gasUnitPrice, expirationTimestampSecs, sequenceNumber } = options;
+
+  if (maxGasAmount !== undefined) toU64('maxGasAmount', maxGasAmount, BigInt(1));
+  if (gasUnitPrice !== undefined) toU64('gasUnitPrice', gasUnitPrice, BigInt(1));
+  if (sequenceNumber !== undefined) toU64('sequenceNumber', sequenceNumber, BigInt(0));
+  if (
+    expirationTimestampSecs !== undefined &&
+    toU64('expirationTimestampSecs', expirationTimestampSecs, BigInt(0)) <=
+      BigInt(Math.floor(Date.now() / 1000))
+  ) {
+    throw new Error('Invalid transaction options: expirationTimestampSecs is in the past');
+  }
+}
+
+// Gas unit price the network is currently charging, or the default if it can't be read
+export async function getNetworkGasUnitPrice(
+  network: SupraNetwork = getActiveNetwork(),
+  client: SupraRpcClient = getRpcClient(network)
+) {
+  try {
+    const { mean_gas_price: price } = await client.getGasPrice();
+    return price > 0 ? BigInt(Math.ceil(price)) : BigInt(DEFAULT_GAS_UNIT_PRICE);
+  } catch (error) {
+    console.warn('Error fetching gas price, using default:', error);
+    return BigInt(DEFAULT_GAS_UNIT_PRICE);
+  }
+}
+
+// Validates the options and fills in gas and expiry defaults
+export async function resolveTransactionOptions(
+  options: TransactionOptions = {},
+  network: SupraNetwork = getActiveNetwork(),
+  client: SupraRpcClient = getRpcClient(network)
+): Promise<ResolvedTransactionOptions> {
+  validateTransactionOptions(options);
+
+  return {
+    maxGasAmount: BigInt(options.maxGasAmount ?? DEFAULT_MAX_GAS_AMOUNT),
+    gasUnitPrice:
+      options.gasUnitPrice !== undefined
+        ? BigInt(options.gasUnitPrice)
+        : await getNetworkGasUnitPrice(network, client),
+    expirationTimestampSecs: BigInt(
+      options.expirationTimestampSecs ?? Math.floor(Date.now() / 1000) + DEFAULT_EXPIRY_SECONDS
+    ),
+    sequenceNumber:
+      options.sequenceNumber !== undefined ? BigInt(options.sequenceNumber) : undefined,
+  };
+}
@@ -0,0 +1,205 @@
+import { getActiveNetwork, type SupraNetwork } from './networks';
+import {
+  getRpcClient,
+  type SupraEvent,
+  type SupraRpcClient,
+  type SupraSimulationPayload,
+  type SupraTransaction,
+} from './supraRpcClient';
+import {
+  DEFAULT_EXPIRY_SECONDS,
+  DEFAULT_GAS_UNIT_PRICE,
+  DEFAULT_MAX_GAS_AMOUNT,
+  type TransactionOptions,
+} from './transactionOptions';
+import { toTypeTagJson } from './typeTags';
+import { standardizeAddress } from './utils';
+
+// Simulations are checked without a signature
+const EMPTY_SIGNATURE = `0x${'0'.repeat(128)}`;
+
+// Sequence number is looked up from the RPC when left out
+export interface SimulationRequest extends TransactionOptions {
+  sender: string;
+  // Ed25519 public key of the sender, required by the simulate endpoint
+  publicKey: string;
+  moduleAddress: string;
+  moduleName: string;
+  functionName: string;
+  typeArgs: string[];
+  args: Uint8Array[];
+}
+
+// Abort raised by a Move module, e.g. 0x1::coin EINSUFFICIENT_BALANCE
+export interface MoveAbort {
+  module?: string;
+  reason?: string;
+  code?: number;
+  description?: string;
+}
+
+// Signed change in base units, negative when the account pays
+export interface BalanceChange {
+  address: string;
+  coinType: string;
+  amount: bigint;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  vmStatus: string;
+  gasUsed: number;
+  gasUnitPrice: bigint;
+  // gasUsed * gasUnitPrice in base units of the native coin
+  fee: bigint;
+  abort?: MoveAbort;
+  balanceChanges: BalanceChange[];
+  events: SupraEvent[];
+  transaction: SupraTransaction;
+}
+
+// Thrown by sendRawTransaction when a required simulation doesn't pass
+export class SimulationError extends Error {
+  constructor(message: string, public readonly result?: SimulationResult) {
+    super(message);
+    this.name = 'SimulationError';
+  }
+}
+
+// e.g. "Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins"
+const ABORT_PATTERN = /Move abort in (0x[0-9a-f]+::\w+): (\w+)\((0x[0-9a-f]+|\d+)\)(?::\s*(.*))?/i;
+const ABORT_CODE_PATTERN = /abort\D*?(0x[0-9a-f]+|\d+)/i;
+
+export function parseMoveAbort(vmStatus: string): MoveAbort | undefined {
+  const match = ABORT_PATTERN.exec(vmStatus);
+  if (match) {
+    const [, module, reason, code, description] = match;
+    return { module, reason, code: Number(code), description: description?.trim() || undefined };
+  }
+
+  const codeMatch = ABORT_CODE_PATTERN.exec(vmStatus);
+  return codeMatch ? { code: Number(codeMatch[1]) } : undefined;
+}
+
+interface CoinEventData {
+  account?: string;
+  amount?: string | number;
+  coin_type?: string;
+}
+
+// Coin movements from the coin module events, plus the gas fee paid by the sender
+export function getBalanceChanges(
+  events: SupraEvent[],
+  sender: string,
+  fee: bigint,
+  nativeCoinType: string
+): BalanceChange[] {
+  const changes = new Map<string, BalanceChange>();
+  const add = (address: string, coinType: string, amount: bigint) => {
+    const owner = standardizeAddress(address);
+    const key = `${owner}:${coinType}`;
+    const change = changes.get(key) ?? { address: owner, coinType, amount: BigInt(0) };
+    change.amount += amount;
+    changes.set(key, change);
+  };
+
+  events.forEach(({ type, data }) => {
+    const { account, amount, coin_type: coinType } = (data ?? {}) as CoinEventData;
+    if (!account || amount === undefined || !coinType) return;
+
+    if (type.endsWith('::coin::CoinDeposit')) {
+      add(account, coinType, BigInt(amount));
+    } else if (type.endsWith('::coin::CoinWithdraw')) {
+      add(account, coinType, -BigInt(amount));
+    }
+  });
+
+  if (fee > BigInt(0)) {
+    add(sender, nativeCoinType, -fee);
+  }
+  return Array.from(changes.values()).filter((change) => change.amount !== BigInt(0));
+}
+
+// Builds the unsigned transaction the wallet would be asked to sign
+export async function buildSimulationPayload(
+  request: SimulationRequest,
+  network: SupraNetwork = getActiveNetwork(),
+  client: SupraRpcClient = getRpcClient(network)
+): Promise<SupraSimulationPayload> {
+  const sequenceNumber =
+    request.sequenceNumber ?? (await client.getAccountInfo(request.sender)).sequence_number;
+  const typeArgs = request.typeArgs.map((typeArg) => toTypeTagJson(typeArg));
+
+  return {
+    Move: {
+      raw_txn: {
+        sender: standardizeAddress(request.sender),
+        sequence_number: sequenceNumber.toString(),
+        payload: {
+          EntryFunction: {
+            module: {
+              address: standardizeAddress(request.moduleAddress),
+              name: request.moduleName,
+            },
+            function: request.functionName,
+            ty_args: typeArgs,
+            args: request.args.map((arg) => Array.from(arg)),
+          },
+        },
+        max_gas_amount: (request.maxGasAmount ?? DEFAULT_MAX_GAS_AMOUNT).toString(),
+        gas_unit_price: (request.gasUnitPrice ?? DEFAULT_GAS_UNIT_PRICE).toString(),
+        expiration_timestamp_secs: (
+          request.expirationTimestampSecs ?? Math.floor(Date.now() / 1000) + DEFAULT_EXPIRY_SECONDS
+        ).toString(),
+        chain_id: Number(network.chainId),
+      },
+      authenticator: {
+        Ed25519: {
+          public_key: request.publicKey,
+          signature: EMPTY_SIGNATURE,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Dry-runs an entry function call against the RPC simulate endpoint, with the
+ * same module, function, type args and BCS args that would go to the wallet.
+ */
+export async function simulateTransaction(
+  request: SimulationRequest,
+  network: SupraNetwork = getActiveNetwork(),
+  client: SupraRpcClient = getRpcClient(network)
+): Promise<SimulationResult> {
+  const payload = await buildSimulationPayload(request, network, client);
+  const transaction = await client.simulateTransaction(payload);
+
+  const output = transaction.output?.Move;
+  const vmStatus = output?.vm_status ?? '';
+  const gasUsed = output?.gas_used ?? 0;
+  const gasUnitPrice = BigInt(payload.Move.raw_txn.gas_unit_price);
+  const fee = BigInt(gasUsed) * gasUnitPrice;
+  const events = output?.events ?? [];
+  const success = transaction.status === 'Success';
+
+  return {
+    success,
+    vmStatus,
+    gasUsed,
+    gasUnitPrice,
+    fee,
+    abort: success ? undefined : parseMoveAbort(vmStatus),
+    balanceChanges: getBalanceChanges(events, request.sender, fee, network.coinType),
+    events,
+    transaction,
+  };
+}
+
+// Short human readable reason a simulation failed
+export function describeSimulationFailure({ abort, vmStatus }: SimulationResult) {
+  if (abort?.module && abort.reason) {
+    return `${abort.module}: ${abort.reason}${abort.description ? ` (${abort.description})` : ''}`;
+  }
+  return vmStatus || 'Simulation failed';
+}
@@ -0,0 +1,203 @@
+import { getActiveNetwork, getNetworkByChainId, type SupraNetwork } from './networks';
+import {
+  getRpcClient,
+  type SupraEvent,
+  type SupraRpcClient,
+  type SupraTransaction,
+} from './supraRpcClient';
+
+export type TransactionStatus = 'pending' | 'executed' | 'failed' | 'expired';
+
+export interface TrackedTransaction {
+  hash: string;
+  status: TransactionStatus;
+  sender?: string;
+  // module_address::module_name::function_name that was called
+  function?: string;
+  typeArgs?: string[];
+  // Entry function arguments as the RPC reports them
+  arguments?: unknown[];
+  // BCS of each argument in hex, for transactions sent from this app
+  encodedArguments?: string[];
+  chainId: string;
+  submittedAt: number;
+  updatedAt: number;
+  // Unix ms after which a transaction that never landed counts as expired
+  expiresAt: number;
+  gasUsed?: number;
+  vmStatus?: string;
+  events?: SupraEvent[];
+}
+
+export type NewTrackedTransaction = Pick<TrackedTransaction, 'hash'> &
+  Partial<Omit<TrackedTransaction, 'hash' | 'status' | 'updatedAt'>>;
+
+export interface WaitForTransactionOptions {
+  // Give up waiting after this many ms; tracking itself keeps going
+  timeout?: number;
+}
+
+export interface TransactionTrackerOptions {
+  onUpdate?: (transaction: TrackedTransaction) => void;
+  pollInterval?: number;
+  // How long a submitted transaction may stay unknown to the node
+  expiry?: number;
+  // Client polled for a network (default the shared one)
+  getClient?: (network: SupraNetwork) => SupraRpcClient;
+}
+
+// Wallets build transactions with a 5 minute expiry
+const DEFAULT_EXPIRY = 5 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL = 1500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Entry function payloads come wrapped in { Move: ... } or bare
+const getEntryFunction = (payload: unknown) => {
+  const entry = (payload as { Move?: unknown } | undefined)?.Move ?? payload;
+  const { function: fn, type_arguments: typeArgs, arguments: args } =
+    (entry as { function?: unknown; type_arguments?: unknown; arguments?: unknown } | undefined) ??
+    {};
+  return {
+    function: typeof fn === 'string' ? fn : undefined,
+    typeArgs: Array.isArray(typeArgs) ? typeArgs.map(String) : undefined,
+    arguments: Array.isArray(args) ? args : undefined,
+  };
+};
+
+// Tracked record for a transaction as reported by the RPC
+export const parseRpcTransaction = (
+  txn: SupraTransaction,
+  chainId: string
+): TrackedTransaction => {
+  const { header, output, block_header: block } = txn;
+  const sender = typeof header?.sender === 'string' ? header.sender : header?.sender?.Move;
+  const timestamp = block?.timestamp?.microseconds_since_unix_epoch;
+  const expiration = header?.expiration_timestamp?.microseconds_since_unix_epoch;
+  const now = Date.now();
+
+  return {
+    hash: txn.hash,
+    status:
+      txn.status === 'Pending' ? 'pending' : txn.status === 'Success' ? 'executed' : 'failed',
+    sender,
+    ...getEntryFunction(txn.payload),
+    chainId: header?.chain_id !== undefined ? String(header.chain_id) : chainId,
+    submittedAt: timestamp ? Math.floor(timestamp / 1000) : now,
+    updatedAt: now,
+    expiresAt: expiration ? Math.floor(expiration / 1000) : now,
+    gasUsed: output?.Move?.gas_used,
+    vmStatus: output?.Move?.vm_status,
+    events: output?.Move?.events,
+  };
+};
+
+/**
+ * Follows submitted transactions from pending to executed, failed or expired
+ * by polling the RPC for their hash. Each hash is polled by one loop at most,
+ * however many callers wait on it.
+ */
+export function createTransactionTracker({
+  onUpdate,
+  pollInterval = DEFAULT_POLL_INTERVAL,
+  expiry = DEFAULT_EXPIRY,
+  getClient = getRpcClient,
+}: TransactionTrackerOptions = {}) {
+  const records = new Map<string, TrackedTransaction>();
+  const polling = new Map<string, Promise<TrackedTransaction>>();
+
+  const update = (hash: string, patch: Partial<TrackedTransaction>) => {
+    const record = { ...records.get(hash)!, ...patch, updatedAt: Date.now() };
+    records.set(hash, record);
+    onUpdate?.(record);
+    return record;
+  };
+
+  const poll = (hash: string) => {
+    const existing = polling.get(hash);
+    if (existing) return existing;
+
+    const promise = (async () => {
+      for (;;) {
+        const record = records.get(hash)!;
+        const network = getNetworkByChainId(record.chainId) ?? getActiveNetwork();
+
+        try {
+          const txn = await getClient(network).getTransactionByHash(hash);
+          if (txn && txn.status !== 'Pending') {
+            const { status, gasUsed, vmStatus, events } = parseRpcTransaction(
+              txn,
+              record.chainId
+            );
+            return update(hash, { status, gasUsed, vmStatus, events });
+          }
+        } catch (error) {
+          // Keep polling through RPC hiccups until the transaction expires
+          console.warn(`Error polling transaction ${hash}:`, error);
+        }
+
+        if (Date.now() > record.expiresAt) {
+          return update(hash, { status: 'expired' });
+        }
+        await sleep(pollInterval);
+      }
+    })().finally(() => {
+      polling.delete(hash);
+    });
+
+    polling.set(hash, promise);
+    return promise;
+  };
+
+  // Starts tracking a freshly submitted transaction
+  const track = (transaction: NewTrackedTransaction) => {
+    const now = Date.now();
+    const submittedAt = transaction.submittedAt ?? now;
+    records.set(transaction.hash, {
+      chainId: getActiveNetwork().chainId,
+      expiresAt: submittedAt + expiry,
+      ...transaction,
+      submittedAt,
+      status: 'pending',
+      updatedAt: now,
+    });
+    onUpdate?.(records.get(transaction.hash)!);
+    return poll(transaction.hash);
+  };
+
+  const getTransaction = (hash: string) => records.get(hash);
+
+  // Resolves once the transaction leaves the pending state
+  const waitForTransaction = async (
+    hash: string,
+    { timeout }: WaitForTransactionOptions = {}
+  ): Promise<TrackedTransaction> => {
+    const record = records.get(hash);
+    const result = record
+      ? record.status === 'pending' ? poll(hash) : Promise.resolve(record)
+      : track({ hash });
+
+    if (!timeout) return result;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out waiting for transaction ${hash}`)),
+        timeout
+      );
+    });
+    try {
+      return await Promise.race([result, timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    track,
+    getTransaction,
+    waitForTransaction,
+  };
+}
+
+export type TransactionTracker = ReturnType<typeof createTransactionTracker>;
@@ -0,0 +1,229 @@
+import { BCS, TxnBuilderTypes } from 'supra-l1-sdk-core';
+import { standardizeAddress } from './utils';
+
+export type PrimitiveTypeTag =
+  | 'bool'
+  | 'u8'
+  | 'u16'
+  | 'u32'
+  | 'u64'
+  | 'u128'
+  | 'u256'
+  | 'address'
+  | 'signer';
+
+// Parsed Move type argument, struct addresses are standardized
+export type TypeTag =
+  | { kind: PrimitiveTypeTag }
+  | { kind: 'vector'; item: TypeTag }
+  | { kind: 'struct'; address: string; module: string; name: string; typeArgs: TypeTag[] };
+
+// Type tag in the JSON shape the RPC expects
+export type TypeTagJson =
+  | string
+  | { vector: TypeTagJson }
+  | { struct: { address: string; module: string; name: string; type_args: TypeTagJson[] } };
+
+// Thrown for a malformed type argument, position is the offset in input where parsing stopped
+export class TypeTagError extends Error {
+  constructor(message: string, public readonly input: string, public readonly position?: number) {
+    super(
+      `Invalid type argument "${input}": ${message}` +
+        (position === undefined ? '' : ` at position ${position}`)
+    );
+    this.name = 'TypeTagError';
+  }
+}
+
+const PRIMITIVES: PrimitiveTypeTag[] = [
+  'bool',
+  'u8',
+  'u16',
+  'u32',
+  'u64',
+  'u128',
+  'u256',
+  'address',
+  'signer',
+];
+
+const ADDRESS = /^0x[0-9a-fA-F]+/;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+const isPrimitive = (word: string): word is PrimitiveTypeTag =>
+  (PRIMITIVES as string[]).includes(word);
+
+/**
+ * Parses a Move type argument such as "u64", "vector<u8>" or
+ * "0x1::coin::CoinStore<0x1::supra_coin::SupraCoin>". Addresses may be short
+ * and are standardized, whitespace between tokens is ignored. Generic
+ * parameters (T0) and references aren't valid type arguments and are rejected
+ * with a TypeTagError.
+ */
+export function parseTypeTag(input: string): TypeTag {
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new TypeTagError(message, input, position);
+  };
+
+  const skipWhitespace = () => {
+    while (position < input.length && /\s/.test(input[position])) position++;
+  };
+
+  const read = (pattern: RegExp) => {
+    skipWhitespace();
+    const match = pattern.exec(input.slice(position));
+    if (!match) return undefined;
+    position += match[0].length;
+    return match[0];
+  };
+
+  const accept = (token: string) => {
+    skipWhitespace();
+    if (!input.startsWith(token, position)) return false;
+    position += token.length;
+    return true;
+  };
+
+  const expect = (token: string) => {
+    if (!accept(token)) fail(`expected "${token}"`);
+  };
+
+  const parseType = (): TypeTag => {
+    const address = read(ADDRESS);
+    if (address) {
+      if (address.length > 66) {
+        position -= address.length;
+        fail('address is longer than 32 bytes');
+      }
+      expect('::');
+      const moduleName = read(IDENTIFIER) ?? fail('expected a module name');
+      expect('::');
+      const name = read(IDENTIFIER) ?? fail('expected a struct name');
+      const typeArgs: TypeTag[] = [];
+      if (accept('<')) {
+        do {
+          typeArgs.push(parseType());
+        } while (accept(','));
+        expect('>');
+      }
+      return {
+        kind: 'struct',
+        address: standardizeAddress(address.toLowerCase()),
+        module: moduleName,
+        name,
+        typeArgs,
+      };
+    }
+
+    const word = read(IDENTIFIER) ?? fail('expected a type');
+    if (word === 'vector') {
+      expect('<');
+      const item = parseType();
+      expect('>');
+      return { kind: 'vector', item };
+    }
+    if (isPrimitive(word)) {
+      return { kind: word };
+    }
+    position -= word.length;
+    return fail(`unknown type ${word}, structs need a full address::module::Name path`);
+  };
+
+  const tag = parseType();
+  skipWhitespace();
+  if (position < input.length) {
+    fail(`unexpected "${input[position]}"`);
+  }
+  return tag;
+}
+
+// 0x1 for 0x000...001, as addresses are usually written
+const shortAddress = (address: string) => `0x${address.slice(2).replace(/^0+(?=.)/, '')}`;
+
+/**
+ * Canonical string for a type tag: standardized addresses and ", " between
+ * type arguments. With `short` addresses are written without leading zeros,
+ * for display.
+ */
+export function formatTypeTag(tag: TypeTag, { short = false }: { short?: boolean } = {}): string {
+  switch (tag.kind) {
+    case 'vector':
+      return `vector<${formatTypeTag(tag.item, { short })}>`;
+    case 'struct': {
+      const address = short ? shortAddress(tag.address) : tag.address;
+      const typeArgs = tag.typeArgs.map((typeArg) => formatTypeTag(typeArg, { short }));
+      const generics = typeArgs.length ? `<${typeArgs.join(', ')}>` : '';
+      return `${address}::${tag.module}::${tag.name}${generics}`;
+    }
+    default:
+      return tag.kind;
+  }
+}
+
+// Validated type argument in canonical form, throws TypeTagError when malformed
+export const normalizeTypeTag = (input: string) => formatTypeTag(parseTypeTag(input));
+
+export const normalizeTypeArgs = (typeArgs: string[]) => typeArgs.map(normalizeTypeTag);
+
+const toTag = (tag: TypeTag | string) => (typeof tag === 'string' ? parseTypeTag(tag) : tag);
+
+// SDK type tag, used to build raw transactions
+export function toTxnTypeTag(input: TypeTag | string): TxnBuilderTypes.TypeTag {
+  const tag = toTag(input);
+  switch (tag.kind) {
+    case 'bool':
+      return new TxnBuilderTypes.TypeTagBool();
+    case 'u8':
+      return new TxnBuilderTypes.TypeTagU8();
+    case 'u16':
+      return new TxnBuilderTypes.TypeTagU16();
+    case 'u32':
+      return new TxnBuilderTypes.TypeTagU32();
+    case 'u64':
+      return new TxnBuilderTypes.TypeTagU64();
+    case 'u128':
+      return new TxnBuilderTypes.TypeTagU128();
+    case 'u256':
+      return new TxnBuilderTypes.TypeTagU256();
+    case 'address':
+      return new TxnBuilderTypes.TypeTagAddress();
+    case 'signer':
+      return new TxnBuilderTypes.TypeTagSigner();
+    case 'vector':
+      return new TxnBuilderTypes.TypeTagVector(toTxnTypeTag(tag.item));
+    case 'struct':
+      return new TxnBuilderTypes.TypeTagStruct(
+        new TxnBuilderTypes.StructTag(
+          TxnBuilderTypes.AccountAddress.fromHex(tag.address),
+          new TxnBuilderTypes.Identifier(tag.module),
+          new TxnBuilderTypes.Identifier(tag.name),
+          tag.typeArgs.map(toTxnTypeTag)
+        )
+      );
+  }
+}
+
+// BCS bytes of the type tag, as they appear in an entry function payload
+export const serializeTypeTag = (tag: TypeTag | string) => BCS.bcsToBytes(toTxnTypeTag(tag));
+
+// Type tag as the simulate endpoint takes it in ty_args
+export function toTypeTagJson(input: TypeTag | string): TypeTagJson {
+  const tag = toTag(input);
+  switch (tag.kind) {
+    case 'vector':
+      return { vector: toTypeTagJson(tag.item) };
+    case 'struct':
+      return {
+        struct: {
+          address: tag.address,
+          module: tag.module,
+          name: tag.name,
+          type_args: tag.typeArgs.map(toTypeTagJson),
+        },
+      };
+    default:
+      return tag.kind;
+  }
+}
@@ -0,0 +1,148 @@
+import { HexString } from 'supra-l1-sdk-core';
+import { fetchModuleABI } from './abiStorage';
+import {
+  argumentError,
+  canonicalType,
+  OBJECT_PREFIX,
+  OPTION_PREFIX,
+  resolveParamTypes,
+  toBytes,
+  toUint,
+} from './moveSerialization';
+import { getActiveNetwork, type SupraNetwork } from './networks';
+import { getRpcClient, type SupraRpcClient } from './supraRpcClient';
+import { normalizeTypeArgs } from './typeTags';
+
+const VECTOR_PREFIX = 'vector<';
+
+const innerType = (type: string, prefix: string) => type.slice(prefix.length, -1);
+
+// Converts a JS value to the JSON form the view endpoint expects for a Move type
+export function encodeViewArgument(value: unknown, moveType: string): unknown {
+  const type = canonicalType(moveType);
+
+  if (type.startsWith(OPTION_PREFIX)) {
+    const inner = innerType(type, OPTION_PREFIX);
+    return { vec: value === null || value === undefined ? [] : [encodeViewArgument(value, inner)] };
+  }
+  if (type.startsWith(VECTOR_PREFIX)) {
+    const inner = innerType(type, VECTOR_PREFIX);
+    if (inner === 'u8') {
+      return HexString.fromUint8Array(toBytes(value)).hex();
+    }
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected array for ${type}, got ${typeof value}`);
+    }
+    return value.map((item) => encodeViewArgument(item, inner));
+  }
+  if (type.startsWith(OBJECT_PREFIX) || type === 'address' || type === '0x1::string::String') {
+    if (typeof value !== 'string') {
+      throw new Error(`Expected string for ${type}, got ${typeof value}`);
+    }
+    return value;
+  }
+
+  switch (type) {
+    case 'bool':
+      if (typeof value !== 'boolean') {
+        throw new Error(`Expected boolean, got ${typeof value}`);
+      }
+      return value;
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return Number(toUint(value, type));
+    case 'u64':
+    case 'u128':
+    case 'u256':
+      // Large integers travel as decimal strings
+      return toUint(value, type).toString();
+    default:
+      // Structs and generic parameters are passed through as given
+      return value;
+  }
+}
+
+// Converts a JSON value returned by the view endpoint using its Move type
+export function decodeViewValue(value: unknown, moveType: string): unknown {
+  const type = canonicalType(moveType);
+
+  if (type.startsWith(OPTION_PREFIX)) {
+    const vec = (value as { vec?: unknown[] } | null)?.vec ?? [];
+    return vec.length ? decodeViewValue(vec[0], innerType(type, OPTION_PREFIX)) : null;
+  }
+  if (type.startsWith(VECTOR_PREFIX)) {
+    const inner = innerType(type, VECTOR_PREFIX);
+    if (inner === 'u8' && typeof value === 'string') {
+      return new HexString(value).toUint8Array();
+    }
+    return Array.isArray(value) ? value.map((item) => decodeViewValue(item, inner)) : value;
+  }
+  if (type.startsWith(OBJECT_PREFIX)) {
+    return (value as { inner?: string } | null)?.inner ?? value;
+  }
+
+  switch (type) {
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return Number(value);
+    case 'u64':
+    case 'u128':
+    case 'u256':
+      return BigInt(value as string | number);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Calls a `#[view]` function through the RPC. Arguments are encoded from the
+ * ABI `params` and results decoded from its `return` types (u64 and wider come
+ * back as bigint, vector<u8> as Uint8Array). No wallet is needed.
+ */
+export async function callView<T extends unknown[] = unknown[]>(
+  moduleAddress: string,
+  moduleName: string,
+  functionName: string,
+  typeArgs: string[] = [],
+  args: unknown[] = [],
+  network: SupraNetwork = getActiveNetwork(),
+  client: SupraRpcClient = getRpcClient(network)
+): Promise<T> {
+  // Same canonical type arguments as entry functions, so 0x1:: and spacing don't matter
+  const normalizedTypeArgs = normalizeTypeArgs(typeArgs);
+  const moduleABI = await fetchModuleABI(moduleAddress, moduleName, client);
+  const functionDef = moduleABI.exposed_functions.find((func) => func.name === functionName);
+
+  if (!functionDef) {
+    throw new Error(`Function ${functionName} not found in module ${moduleName}`);
+  }
+  if (!functionDef.is_view) {
+    throw new Error(`${moduleName}::${functionName} is not a view function`);
+  }
+
+  // Generic parameters are encoded as the type arguments they stand for
+  const paramTypes = resolveParamTypes(functionDef, normalizedTypeArgs);
+  if (args.length !== paramTypes.length) {
+    throw new Error(
+      `Argument count mismatch: expected ${paramTypes.length}, got ${args.length}`
+    );
+  }
+
+  const result = await client.view({
+    function: `${moduleAddress}::${moduleName}::${functionName}`,
+    type_arguments: normalizedTypeArgs,
+    arguments: args.map((arg, index) => {
+      try {
+        return encodeViewArgument(arg, paramTypes[index]);
+      } catch (error) {
+        throw argumentError(error, index, paramTypes[index]);
+      }
+    }),
+  });
+
+  return (functionDef.return ?? []).map((type, index) =>
+    decodeViewValue(result[index], type)
+  ) as T;
+}
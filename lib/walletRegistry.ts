@@ -0,0 +1,147 @@
+import { starkeyAdapter } from './adapters/starkey';
+import { ribbitAdapter } from './adapters/ribbit';
+import type { CoinBalance } from './balances';
+import type { IWalletBalance } from './types';
+
+/**
+ * Wallet types known to the registry.
+ *
+ * In-house wallets extend this interface through module augmentation so that
+ * `WalletType` (and everything typed with it) picks them up:
+ *
+ * ```ts
+ * declare module '@/lib/walletRegistry' {
+ *   interface RegisteredWallets {
+ *     mywallet: true;
+ *   }
+ * }
+ * registerWalletAdapter(myWalletAdapter);
+ * ```
+ */
+export interface RegisteredWallets {
+  starkey: true;
+  ribbit: true;
+}
+
+export type WalletType = Extract<keyof RegisteredWallets, string>;
+
+export interface WalletCapabilities {
+  signMessage: boolean;
+  accountSwitching: boolean;
+  networkSwitching: boolean;
+  rawTransactions: boolean;
+  eventListeners: boolean;
+  tokenRevalidation: boolean;
+}
+
+export interface WalletNetwork {
+  chainId: string;
+  [key: string]: unknown;
+}
+
+export interface WalletSignMessageRequest {
+  // Hex encoded (0x-prefixed) UTF-8 message
+  message: string;
+  nonce: string;
+  chainId: string;
+}
+
+export interface WalletSignature {
+  publicKey: string;
+  signature: string;
+  address?: string;
+  [key: string]: unknown;
+}
+
+export interface WalletTransactionRequest {
+  sender: string;
+  moduleAddress: string;
+  moduleName: string;
+  functionName: string;
+  typeArgs: string[];
+  args: Uint8Array[];
+  chainId: string;
+  // Filled in by the store; adapters fall back to their own when left out
+  sequenceNumber?: bigint;
+  maxGasAmount?: bigint;
+  gasUnitPrice?: bigint;
+  // Unix seconds
+  expirationTimestampSecs?: bigint;
+}
+
+// Events a wallet can push to the app (extension installed, account switched, ...)
+export type WalletAdapterEvent =
+  | { type: 'installed' }
+  | { type: 'accountsChanged' }
+  | { type: 'disconnected' }
+  | { type: 'windowClosed' };
+
+export type WalletAdapterListener = (event: WalletAdapterEvent) => void;
+
+/**
+ * Everything the multiwallet hook needs from a wallet. Each method throws on
+ * rejection or provider errors; the hook is responsible for auth, storage and
+ * dispatching window events.
+ */
+export interface WalletAdapter {
+  type: WalletType;
+  name: string;
+  icon?: string;
+  downloadUrl?: string;
+  capabilities: WalletCapabilities;
+
+  // Raw provider object injected by the wallet, or null when not installed
+  getProvider(): unknown;
+  isInstalled(): boolean;
+
+  connect(): Promise<string[]>;
+  disconnect(): Promise<void>;
+  getAccounts(): Promise<string[]>;
+  // Balance as the wallet formats it, only used when the RPC can't be reached
+  getBalance(chainId: string): Promise<IWalletBalance | null>;
+  // Exact native coin balance, for adapters that track balances themselves
+  getCoinBalance?(chainId: string): Promise<CoinBalance | null>;
+  // Next sequence number of the account, for adapters that track it themselves
+  getSequenceNumber?(address: string, chainId: string): Promise<bigint>;
+  getNetwork(): Promise<WalletNetwork>;
+  switchNetwork(chainId: string): Promise<void>;
+  signMessage(request: WalletSignMessageRequest): Promise<WalletSignature>;
+  sendRawTransaction(request: WalletTransactionRequest): Promise<string | undefined>;
+
+  // Returns an unsubscribe function. Only called when capabilities.eventListeners is set.
+  subscribe?(listener: WalletAdapterListener): () => void;
+  // Clears anything the adapter cached locally for the current session
+  clearSession?(): void;
+}
+
+export const DEFAULT_WALLET_TYPE: WalletType = 'starkey';
+
+const adapters = new Map<WalletType, WalletAdapter>();
+
+export function registerWalletAdapter(adapter: WalletAdapter) {
+  adapters.set(adapter.type, adapter);
+}
+
+export function unregisterWalletAdapter(type: WalletType) {
+  adapters.delete(type);
+}
+
+export function getWalletAdapter(type: WalletType): WalletAdapter {
+  const adapter = adapters.get(type);
+  if (!adapter) {
+    throw new Error(`Unsupported wallet: ${type}`);
+  }
+  return adapter;
+}
+
+export function getWalletAdapters(): WalletAdapter[] {
+  return Array.from(adapters.values());
+}
+
+export function isWalletType(value: unknown): value is WalletType {
+  return typeof value === 'string' && adapters.has(value as WalletType);
+}
+
+// Built-in wallets
+registerWalletAdapter(starkeyAdapter);
+registerWalletAdapter(ribbitAdapter);
@@ -0,0 +1,77 @@
+import type { WalletType } from './walletRegistry';
+
+// Why a connection attempt or sign-in ended in the error state
+export type WalletErrorReason =
+  | 'not-installed'
+  | 'no-account'
+  | 'connection-rejected'
+  | 'network-switch-failed'
+  | 'signature-rejected'
+  | 'authentication-failed'
+  | 'unknown';
+
+/**
+ * Connection status owned by the wallet store:
+ *
+ *   disconnected → detecting → connecting → connected → authenticating → authenticated
+ *
+ * Any in-flight state can fall into `error`. An error raised after the wallet
+ * connected keeps the account, so the UI can still offer general access.
+ */
+export type WalletStatus =
+  | { state: 'disconnected' }
+  | { state: 'detecting'; wallet: WalletType }
+  | { state: 'connecting'; wallet: WalletType }
+  | { state: 'connected'; wallet: WalletType; account: string }
+  | { state: 'authenticating'; wallet: WalletType; account: string }
+  | { state: 'authenticated'; wallet: WalletType; account: string }
+  | {
+      state: 'error';
+      wallet: WalletType;
+      reason: WalletErrorReason;
+      message?: string;
+      account?: string;
+    };
+
+export type WalletStatusState = WalletStatus['state'];
+
+// Allowed moves between states, anything else is rejected by the store
+const TRANSITIONS: Record<WalletStatusState, readonly WalletStatusState[]> = {
+  disconnected: ['disconnected', 'detecting', 'connecting', 'connected'],
+  detecting: ['disconnected', 'connecting', 'connected'],
+  connecting: ['connected', 'error', 'disconnected'],
+  connected: ['connected', 'authenticating', 'connecting', 'detecting', 'disconnected', 'error'],
+  authenticating: ['authenticated', 'error', 'disconnected'],
+  authenticated: ['authenticated', 'authenticating', 'connected', 'connecting', 'detecting', 'disconnected'],
+  error: ['disconnected', 'detecting', 'connecting', 'connected', 'authenticating'],
+};
+
+export const INITIAL_WALLET_STATUS: WalletStatus = { state: 'disconnected' };
+
+export const canTransition = (from: WalletStatusState, to: WalletStatusState) =>
+  TRANSITIONS[from].includes(to);
+
+// True while the user is waiting on the wallet (approval or signature prompt)
+export const isWalletBusy = (status: WalletStatus) =>
+  status.state === 'connecting' || status.state === 'authenticating';
+
+// Connected account for the states that carry one
+export const getStatusAccount = (status: WalletStatus): string | undefined =>
+  'account' in status ? status.account : undefined;
+
+// Best-effort mapping of wallet errors onto a reason
+export const getWalletErrorReason = (
+  error: unknown,
+  fallback: WalletErrorReason = 'unknown'
+): WalletErrorReason => {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+
+  if (/not installed/i.test(message)) return 'not-installed';
+  if (/no account/i.test(message)) return 'no-account';
+  if (/reject|denied|cancel/i.test(message)) {
+    return fallback === 'signature-rejected' || fallback === 'authentication-failed'
+      ? 'signature-rejected'
+      : 'connection-rejected';
+  }
+  return fallback;
+};
@@ -0,0 +1,1398 @@
+import nacl from 'tweetnacl';
+import { toast } from 'sonner';
+import { HexString } from 'supra-l1-sdk-core';
+import {
+  DEFAULT_WALLET_TYPE,
+  getWalletAdapter,
+  getWalletAdapters,
+  isWalletType,
+  type WalletAdapter,
+  type WalletAdapterEvent,
+  type WalletCapabilities,
+  type WalletNetwork,
+  type WalletType,
+} from './walletRegistry';
+import {
+  INITIAL_WALLET_STATUS,
+  canTransition,
+  getStatusAccount,
+  getWalletErrorReason,
+  isWalletBusy,
+  type WalletErrorReason,
+  type WalletStatus,
+} from './walletStatus';
+import {
+  DEFAULT_NETWORK,
+  getActiveNetwork,
+  getNetworkByChainId,
+  setActiveNetwork,
+  subscribeActiveNetwork,
+  type NetworkId,
+  type SupraNetwork,
+} from './networks';
+import {
+  createTransactionTracker,
+  type TrackedTransaction,
+  type WaitForTransactionOptions,
+} from './transactionTracker';
+import {
+  exportTransactions as serializeTransactions,
+  filterTransactions,
+  transactionHistory,
+  type TransactionExportFormat,
+  type TransactionHistoryFilter,
+} from './transactionHistory';
+import {
+  SimulationError,
+  describeSimulationFailure,
+  simulateTransaction as runSimulation,
+} from './transactionSimulation';
+import { createSequenceNumberManager, type SequenceNumberManager } from './sequenceNumbers';
+import { formatBalance, getAccountBalance, type CoinBalance } from './balances';
+import { createBalanceWatcher } from './balanceWatcher';
+import { getRpcClient, type SupraRpcClient } from './supraRpcClient';
+import { callView as callViewFunction } from './viewFunctions';
+import { resolveTransactionOptions, type TransactionOptions } from './transactionOptions';
+import { normalizeTypeArgs } from './typeTags';
+import { standardizeAddress } from './utils';
+
+// Wallet events for communication with the parent window
+export const WALLET_EVENTS = {
+  CONNECTED: 'wallet-connected',
+  DISCONNECTED: 'wallet-disconnected',
+  PRESIGNED_STATE: 'presigned-state',
+  POSTSIGNED_STATE: 'postsigned-state',
+  ERROR: 'wallet-error',
+} as const;
+
+const dispatchWalletEvent = (name: string, detail: Record<string, unknown>) => {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent(name, { detail }));
+};
+
+// Get cookie function
+const getCookie = (name: string) => {
+  if (typeof document === 'undefined') return null;
+  const match = document.cookie
+    .split('; ')
+    .find((r) => r.startsWith(name + '='));
+  return match
+    ? decodeURIComponent(match.split('=').slice(1).join('='))
+    : null;
+};
+
+// Storage utility functions
+const STORAGE_KEY = 'multiwallet.selectedWallet';
+
+const setStoredWalletType = (walletType: WalletType) => {
+  try {
+    // Try localStorage first
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(STORAGE_KEY, walletType);
+      return;
+    }
+  } catch {
+    console.warn('localStorage not available');
+  }
+
+  try {
+    // Fallback to sessionStorage
+    if (typeof window !== 'undefined' && window.sessionStorage) {
+      sessionStorage.setItem(STORAGE_KEY, walletType);
+      return;
+    }
+  } catch {
+    console.warn('sessionStorage not available');
+  }
+
+  try {
+    // Fallback to cookie
+    if (typeof document !== 'undefined') {
+      document.cookie = `${STORAGE_KEY}=${walletType}; path=/; max-age=${60 * 60 * 24 * 30}; SameSite=Lax`;
+      return;
+    }
+  } catch {
+    console.warn('cookies not available');
+  }
+};
+
+const getStoredWalletType = (): WalletType => {
+  if (typeof window === 'undefined') return DEFAULT_WALLET_TYPE;
+
+  try {
+    // Try localStorage first
+    if (window.localStorage) {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isWalletType(stored)) {
+        return stored;
+      }
+    }
+  } catch {
+    console.warn('localStorage read failed');
+  }
+
+  try {
+    // Fallback to sessionStorage
+    if (window.sessionStorage) {
+      const stored = sessionStorage.getItem(STORAGE_KEY);
+      if (isWalletType(stored)) {
+        return stored;
+      }
+    }
+  } catch {
+    console.warn('sessionStorage read failed');
+  }
+
+  try {
+    // Fallback to cookie
+    if (typeof document !== 'undefined') {
+      const stored = getCookie(STORAGE_KEY);
+      if (isWalletType(stored)) {
+        return stored;
+      }
+    }
+  } catch {
+    console.warn('cookie read failed');
+  }
+
+  return DEFAULT_WALLET_TYPE; // Default fallback
+};
+
+const clearStoredWalletType = () => {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Silent fail
+  }
+
+  try {
+    if (typeof window !== 'undefined' && window.sessionStorage) {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Silent fail
+  }
+
+  try {
+    if (typeof document !== 'undefined') {
+      document.cookie = `${STORAGE_KEY}=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+    }
+  } catch {
+    // Silent fail
+  }
+};
+
+// Public keys learned from wallet signatures, needed to simulate transactions
+const PUBLIC_KEYS_STORAGE_KEY = 'multiwallet.publicKeys';
+
+const getStoredPublicKeys = (): Record<string, string> => {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return JSON.parse(localStorage.getItem(PUBLIC_KEYS_STORAGE_KEY) || '{}');
+    }
+  } catch {
+    console.warn('localStorage read failed');
+  }
+  return {};
+};
+
+const getStoredPublicKey = (address: string): string | undefined =>
+  getStoredPublicKeys()[standardizeAddress(address)];
+
+const setStoredPublicKey = (address: string, publicKey: string) => {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const publicKeys = getStoredPublicKeys();
+      publicKeys[standardizeAddress(address)] = publicKey;
+      localStorage.setItem(PUBLIC_KEYS_STORAGE_KEY, JSON.stringify(publicKeys));
+    }
+  } catch {
+    console.warn('localStorage not available');
+  }
+};
+
+export interface SendTransactionOptions extends TransactionOptions {
+  // Dry-run first and don't prompt the wallet if the simulation fails
+  simulate?: boolean;
+}
+
+export { getSequenceNumber } from './sequenceNumbers';
+
+export interface WalletState {
+  selectedWallet: WalletType;
+  walletCapabilities: WalletCapabilities;
+  isExtensionInstalled: boolean;
+  accounts: string[];
+  networkData: Partial<WalletNetwork>;
+  // App-selected Supra network, wallets are asked to follow it
+  network: SupraNetwork;
+  // Native coin balance of the connected account, formatted for display
+  balance: string;
+  coinBalance: CoinBalance | null;
+  status: WalletStatus;
+  // History of the connected account on the selected network, newest first
+  transactions: TrackedTransaction[];
+  selectedChainId: string;
+}
+
+export interface AvailableWallet {
+  type: WalletType;
+  name: string;
+  isInstalled: boolean;
+  capabilities: WalletCapabilities;
+}
+
+export interface WalletStoreOptions {
+  // Client for each network's RPC, e.g. one answering from a mock chain (default the shared one)
+  rpcClient?: (network: SupraNetwork) => SupraRpcClient;
+  // Used for the app's /api/auth routes, outside the browser they need a stand-in
+  fetch?: typeof fetch;
+  // Hands out sequence numbers for queued sends (default from the adapter or the RPC)
+  sequenceNumbers?: SequenceNumberManager;
+}
+
+const createInitialState = (
+  selectedWallet: WalletType,
+  network: SupraNetwork
+): WalletState => ({
+  selectedWallet,
+  walletCapabilities: getWalletAdapter(selectedWallet).capabilities,
+  isExtensionInstalled: false,
+  accounts: [],
+  networkData: {},
+  network,
+  balance: '',
+  coinBalance: null,
+  status: INITIAL_WALLET_STATUS,
+  transactions: [],
+  selectedChainId: '',
+});
+
+/**
+ * Framework-agnostic owner of the wallet session. One store instance holds the
+ * selected wallet, accounts, balance, network and transactions; React binds to
+ * it through `useSyncExternalStore` and any other code can read it directly.
+ * The options swap out the RPC, auth fetch and sequence numbers, e.g. to drive
+ * the store from Node with the mock wallet.
+ */
+export function createWalletStore({
+  rpcClient = getRpcClient,
+  fetch: fetchImpl,
+  sequenceNumbers: customSequenceNumbers,
+}: WalletStoreOptions = {}) {
+  // Snapshot rendered on the server and during hydration
+  const serverState = createInitialState(DEFAULT_WALLET_TYPE, DEFAULT_NETWORK);
+  let state = createInitialState(getStoredWalletType(), getActiveNetwork());
+  const listeners = new Set<() => void>();
+
+  let mountCount = 0;
+  let teardown: (() => void) | null = null;
+  let unsubscribeAdapter: (() => void) | null = null;
+  let detectionTimers: ReturnType<typeof setInterval>[] = [];
+
+  const apiFetch = (input: RequestInfo | URL, init?: RequestInit) =>
+    (fetchImpl ?? fetch)(input, init);
+
+  const getSnapshot = () => state;
+
+  const getServerSnapshot = () => serverState;
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const setState = (partial: Partial<WalletState>) => {
+    state = { ...state, ...partial };
+    listeners.forEach((listener) => listener());
+  };
+
+  // Moves the connection status, rejecting transitions the machine doesn't allow
+  const setStatus = (next: WalletStatus) => {
+    const current = state.status.state;
+    if (!canTransition(current, next.state)) {
+      console.warn(`Ignored wallet status transition ${current} -> ${next.state}`);
+      return false;
+    }
+    setState({ status: next });
+    return true;
+  };
+
+  // Records a failed connect or sign-in, keeping the account if the wallet connected
+  const failStatus = (error: unknown) => {
+    const current = state.status;
+    let reason: WalletErrorReason;
+    switch (current.state) {
+      case 'connected': {
+        reason = 'network-switch-failed';
+        break;
+      }
+      case 'authenticating': {
+        reason = getWalletErrorReason(error, 'authentication-failed');
+        break;
+      }
+      default: {
+        reason = getWalletErrorReason(error);
+      }
+    }
+
+    setStatus({
+      state: 'error',
+      wallet: state.selectedWallet,
+      reason,
+      message: error instanceof Error ? error.message : undefined,
+      account: getStatusAccount(current),
+    });
+  };
+
+  // Follows account changes picked up outside of a connect or sign-in flow
+  const syncStatusWithAccounts = (accounts: string[]) => {
+    const current = state.status;
+    if (isWalletBusy(current)) return;
+
+    const account = accounts[0];
+    if (!account) {
+      if (current.state !== 'error') {
+        setStatus({ state: 'disconnected' });
+      }
+      return;
+    }
+    if (getStatusAccount(current) !== account) {
+      setStatus({ state: 'connected', wallet: state.selectedWallet, account });
+    }
+  };
+
+  // Get the adapter of the selected (or given) wallet
+  const getAdapter = (walletType: WalletType = state.selectedWallet): WalletAdapter =>
+    getWalletAdapter(walletType);
+
+  // Get current wallet provider
+  const getCurrentProvider = () => {
+    return getAdapter().getProvider();
+  };
+
+  // Whether a transaction belongs to the history currently in state
+  const isCurrentHistory = (transaction: TrackedTransaction) =>
+    !!state.accounts[0] &&
+    !!transaction.sender &&
+    standardizeAddress(transaction.sender) === standardizeAddress(state.accounts[0]) &&
+    transaction.chainId === state.network.chainId;
+
+  // Adapters that track sequence numbers themselves (the mock wallet) answer first
+  const sequenceNumbers =
+    customSequenceNumbers ??
+    createSequenceNumberManager({
+      fetchSequenceNumber: async (address, network) => {
+        const adapter = getAdapter();
+        if (adapter.getSequenceNumber) {
+          return adapter.getSequenceNumber(address, network.chainId);
+        }
+        const { sequence_number } = await rpcClient(network).getAccountInfo(address);
+        return BigInt(sequence_number);
+      },
+    });
+
+  // Signals balance refreshes to the store and to useBalances
+  const balanceWatcher = createBalanceWatcher({ isActive: () => state.accounts.length > 0 });
+
+  // Persists submitted transactions as they move out of pending
+  const tracker = createTransactionTracker({
+    getClient: rpcClient,
+    onUpdate: (transaction) => {
+      const network = getNetworkByChainId(transaction.chainId);
+      if (network && transaction.sender) {
+        transactionHistory
+          .save(network.id, transaction.sender, transaction)
+          .catch((error) => console.warn('Error saving transaction history:', error));
+      }
+
+      if (!isCurrentHistory(transaction)) return;
+      const exists = state.transactions.some((txn) => txn.hash === transaction.hash);
+      setState({
+        transactions: exists
+          ? state.transactions.map((txn) =>
+              txn.hash === transaction.hash ? transaction : txn
+            )
+          : [transaction, ...state.transactions],
+      });
+
+      // Executed and failed transactions both pay gas
+      if (transaction.status === 'executed' || transaction.status === 'failed') {
+        balanceWatcher.refresh('transaction');
+      }
+    },
+  });
+
+  // Account and network the loaded history belongs to
+  let historyKey = '';
+
+  // Pending records from an earlier visit are polled again until they settle or expire
+  const resumePendingTransactions = (transactions: TrackedTransaction[]) => {
+    transactions
+      .filter((txn) => txn.status === 'pending' && !tracker.getTransaction(txn.hash))
+      .forEach((txn) => {
+        tracker
+          .track(txn)
+          .catch((error) => console.error('Transaction tracking error:', error));
+      });
+  };
+
+  // Loads the stored history of the connected account, then merges in its on-chain history
+  const loadTransactionHistory = async (force = false) => {
+    const address = state.accounts[0];
+    const { network } = state;
+    const key = address ? `${network.id}:${standardizeAddress(address)}` : '';
+    if (key === historyKey && !force) return;
+    historyKey = key;
+
+    if (!address) {
+      setState({ transactions: [] });
+      return;
+    }
+
+    try {
+      const stored = await transactionHistory.getHistory(network.id, address);
+      if (historyKey === key) setState({ transactions: stored });
+      resumePendingTransactions(stored);
+
+      const synced = await transactionHistory.sync(
+        network.id,
+        address,
+        undefined,
+        rpcClient(network)
+      );
+      if (historyKey === key) setState({ transactions: synced });
+    } catch (error) {
+      console.warn('Error loading transaction history:', error);
+    }
+  };
+
+  const refreshTransactionHistory = () => loadTransactionHistory(true);
+
+  const getTransactionHistory = (filter?: TransactionHistoryFilter) =>
+    filterTransactions(state.transactions, filter);
+
+  // CSV or JSON of the current account's history, e.g. for support requests
+  const exportTransactions = (
+    format: TransactionExportFormat,
+    filter?: TransactionHistoryFilter
+  ) => serializeTransactions(getTransactionHistory(filter), format);
+
+  // Resolves once the transaction is executed, failed or expired
+  const waitForTransaction = (hash: string, options?: WaitForTransactionOptions) =>
+    tracker.waitForTransaction(hash, options);
+
+  const setSelectedChainId = (chainId: string) => {
+    setState({ selectedChainId: chainId });
+  };
+
+  // Check if extension is installed, loading accounts once it shows up
+  const checkExtensionInstalled = async () => {
+    const isInstalled = getAdapter().isInstalled();
+    const wasInstalled = state.isExtensionInstalled;
+    if (isInstalled !== wasInstalled) {
+      setState({ isExtensionInstalled: isInstalled });
+    }
+    if (isInstalled && !wasInstalled) {
+      await updateAccounts();
+    }
+    return isInstalled;
+  };
+
+  // Poll for the wallet to inject its provider
+  const pollExtension = (interval: number, onInstalled?: () => void) => {
+    const intervalId = setInterval(async () => {
+      const isInstalled = await checkExtensionInstalled();
+      if (isInstalled) {
+        clearInterval(intervalId);
+        onInstalled?.();
+      }
+    }, interval);
+    detectionTimers.push(intervalId);
+
+    setTimeout(() => {
+      clearInterval(intervalId);
+      // Give up on detection once polling stops
+      if (state.status.state === 'detecting') {
+        setStatus({ state: 'disconnected' });
+      }
+    }, 5000);
+  };
+
+  const checkIsExtensionInstalled = () => {
+    pollExtension(500, () => updateAccounts());
+  };
+
+  const updateAccounts = async (adapter: WalletAdapter = getAdapter()) => {
+    if (!adapter.isInstalled()) return;
+
+    try {
+      const responseAcc = await adapter.getAccounts();
+      setState({ accounts: responseAcc });
+      syncStatusWithAccounts(responseAcc);
+      if (responseAcc.length > 0) {
+        await updateBalance(adapter);
+        await getNetworkData(adapter);
+      }
+    } catch {
+      setState({ accounts: [] });
+      syncStatusWithAccounts([]);
+    }
+  };
+
+  // Network and account the balance in state belongs to
+  const getBalanceKey = () =>
+    state.accounts[0] ? `${state.network.id}:${standardizeAddress(state.accounts[0])}` : '';
+
+  let balanceRequest: { key: string; promise: Promise<void> } | null = null;
+
+  const loadBalance = async (adapter: WalletAdapter, key: string) => {
+    if (!adapter.isInstalled() || !state.accounts.length) {
+      setState({ balance: '', coinBalance: null });
+      return;
+    }
+
+    try {
+      const { network } = state;
+      const coinBalance = await getAccountBalance(
+        state.accounts[0],
+        network,
+        adapter,
+        rpcClient(network)
+      );
+      // Dropped when the account or network changed while reading
+      if (key !== getBalanceKey()) return;
+      setState({ balance: coinBalance ? formatBalance(coinBalance) : '', coinBalance });
+    } catch (error) {
+      console.error('Error updating balance:', error);
+      if (key === getBalanceKey()) {
+        setState({ balance: '', coinBalance: null });
+      }
+    }
+  };
+
+  // Refreshes of the same account and network share one request
+  const updateBalance = (adapter: WalletAdapter = getAdapter()): Promise<void> => {
+    const key = getBalanceKey();
+    if (balanceRequest?.key === key) return balanceRequest.promise;
+
+    const promise = loadBalance(adapter, key).finally(() => {
+      if (balanceRequest?.promise === promise) balanceRequest = null;
+    });
+    balanceRequest = { key, promise };
+    return promise;
+  };
+
+  const getNetworkData = async (
+    adapter: WalletAdapter = getAdapter()
+  ): Promise<Partial<WalletNetwork>> => {
+    if (!adapter.isInstalled()) return {};
+
+    try {
+      const data = await adapter.getNetwork();
+      setState({ networkData: data });
+      return data;
+    } catch (error) {
+      console.error('Error getting network data:', error);
+      setState({ networkData: {} });
+      return {};
+    }
+  };
+
+  // Switch wallets that support it to the selected network
+  const ensureNetwork = async (adapter: WalletAdapter) => {
+    if (!adapter.capabilities.networkSwitching) return;
+
+    const { chainId } = state.network;
+    const networkData = await getNetworkData(adapter);
+    if (networkData.chainId !== chainId) {
+      setSelectedChainId(chainId);
+      await adapter.switchNetwork(chainId);
+      await getNetworkData(adapter);
+    }
+  };
+
+  // Select the Supra network the app works against
+  const setNetwork = async (id: NetworkId) => {
+    setState({ network: setActiveNetwork(id) });
+
+    const adapter = getAdapter();
+    if (!state.accounts.length || !adapter.isInstalled()) return;
+
+    try {
+      await ensureNetwork(adapter);
+    } catch (error) {
+      console.error('Error switching wallet network:', error);
+    }
+    await updateBalance(adapter);
+  };
+
+  const connectWallet = async (walletType?: WalletType) => {
+    // Rejected while another connect or sign-in is still pending, before the
+    // selection changes so the status keeps describing the wallet in flight
+    if (!canTransition(state.status.state, 'connecting')) {
+      console.warn(`Ignored connect while the wallet is ${state.status.state}`);
+      return false;
+    }
+
+    // Update wallet selection if provided
+    if (walletType) {
+      updateSelectedWallet(walletType);
+    }
+
+    const adapter = getAdapter();
+
+    if (!setStatus({ state: 'connecting', wallet: adapter.type })) {
+      return false;
+    }
+
+    if (!adapter.isInstalled()) {
+      toast('Extension not installed',  {
+        description: `Please install the ${adapter.name} extension`,
+      });
+      setStatus({ state: 'error', wallet: adapter.type, reason: 'not-installed' });
+      return false;
+    }
+
+    try {
+      const responseAcc = await adapter.connect();
+      await updateAccounts(adapter);
+
+      if (responseAcc.length == 0) {
+        throw new Error('No account found');
+      }
+
+      const account = responseAcc[0];
+      setStatus({ state: 'connected', wallet: adapter.type, account });
+
+      dispatchWalletEvent(WALLET_EVENTS.PRESIGNED_STATE, {
+        timestamp: Date.now(),
+        account,
+      });
+
+      // Network validation
+      await ensureNetwork(adapter);
+
+      // Authentication flow
+      if (!setStatus({ state: 'authenticating', wallet: adapter.type, account })) {
+        return false;
+      }
+
+      const nonce = await apiFetch('/api/auth/nonce').then((r) => r.text());
+      const signature = await requestSignature(
+        adapter,
+        'Sign message to login to multiwallet. By signing this message, you agree to the Terms of Service and Privacy Policy of multiwallet at https://multiwallet.trade/tos',
+        nonce
+      );
+
+      dispatchWalletEvent(WALLET_EVENTS.POSTSIGNED_STATE, {
+        timestamp: Date.now(),
+        account,
+      });
+
+      const token = await requestToken(account, signature, nonce);
+
+      await apiFetch('/api/auth/wallet-login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+
+      setStatus({ state: 'authenticated', wallet: adapter.type, account });
+
+      // Dispatch connection event
+      dispatchWalletEvent(WALLET_EVENTS.CONNECTED, {
+        timestamp: Date.now(),
+        account,
+        wallet: adapter.type,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Connect error:', error);
+      failStatus(error);
+
+      dispatchWalletEvent(WALLET_EVENTS.ERROR, {
+        timestamp: Date.now(),
+        error: error,
+      });
+      return false;
+    }
+  };
+
+  // Clears a finished error, falling back to whatever the wallet still reports
+  const dismissError = () => {
+    if (state.status.state !== 'error') return;
+
+    const account = state.accounts[0];
+    setStatus(
+      account
+        ? { state: 'connected', wallet: state.selectedWallet, account }
+        : { state: 'disconnected' }
+    );
+  };
+
+  const resetWalletData = () => {
+    setState({ accounts: [], balance: '', coinBalance: null, networkData: {} });
+    setStatus({ state: 'disconnected' });
+
+    getAdapter().clearSession?.();
+  };
+
+  // Ends the session and tells the app (e.g. to navigate home)
+  const endSession = () => {
+    resetWalletData();
+    dispatchWalletEvent(WALLET_EVENTS.DISCONNECTED, { timestamp: Date.now() });
+  };
+
+  const disconnectWallet = async () => {
+    const adapter = getAdapter();
+    if (!adapter.isInstalled()) return;
+
+    try {
+      await adapter.disconnect();
+      await apiFetch('/api/auth/wallet-logout', { method: 'POST' });
+
+      endSession();
+      // Clear wallet selection on disconnect
+      clearStoredWalletType();
+    } catch (error) {
+      console.error('Disconnect error:', error);
+      resetWalletData();
+      // Clear wallet selection on error too
+      clearStoredWalletType();
+    }
+  };
+
+  // Reads from a #[view] function on the selected network, no wallet needed
+  const callView = <T extends unknown[] = unknown[]>(
+    moduleAddress: string,
+    moduleName: string,
+    functionName: string,
+    typeArgs: string[] = [],
+    args: unknown[] = []
+  ) =>
+    callViewFunction<T>(
+      moduleAddress,
+      moduleName,
+      functionName,
+      typeArgs,
+      args,
+      state.network,
+      rpcClient(state.network)
+    );
+
+  // Dry-runs a call as the connected account, without prompting the wallet
+  const simulateTransaction = async (
+    moduleAddress: string,
+    moduleName: string,
+    functionName: string,
+    params: Uint8Array[] = [],
+    runTimeParams: string[] = [],
+    // Sequence number defaults to the account's one on chain
+    options: TransactionOptions = {}
+  ) => {
+    const sender = state.accounts[0];
+    if (!sender) {
+      throw new Error('No account connected');
+    }
+    const publicKey = getStoredPublicKey(sender);
+    if (!publicKey) {
+      throw new Error('Public key of the account is unknown, sign a message first');
+    }
+
+    return runSimulation(
+      {
+        sender,
+        publicKey,
+        moduleAddress,
+        moduleName,
+        functionName,
+        typeArgs: normalizeTypeArgs(runTimeParams),
+        args: params,
+        ...options,
+      },
+      state.network,
+      rpcClient(state.network)
+    );
+  };
+
+  const sendRawTransaction = async (
+    moduleAddress?: string,
+    moduleName?: string,
+    functionName?: string,
+    params?: Uint8Array[],
+    runTimeParams: string[] = [],
+    // Unix seconds, same as options.expirationTimestampSecs
+    txExpiryTime?: number,
+    { simulate = false, ...transactionOptions }: SendTransactionOptions = {}
+  ) => {
+    const adapter = getAdapter();
+    const sender = state.accounts[0];
+    if (
+      !adapter.isInstalled() ||
+      !sender ||
+      !moduleAddress ||
+      !moduleName ||
+      !functionName
+    )
+      return;
+
+    try {
+      if (!adapter.capabilities.rawTransactions) {
+        throw new Error('Raw transactions not supported by current wallet');
+      }
+
+      // Malformed type arguments fail here, before the wallet is asked to sign
+      const typeArgs = normalizeTypeArgs(runTimeParams);
+      const { network } = state;
+      const args = params || [];
+      const options = await resolveTransactionOptions(
+        {
+          ...transactionOptions,
+          expirationTimestampSecs: transactionOptions.expirationTimestampSecs ?? txExpiryTime,
+        },
+        network,
+        rpcClient(network)
+      );
+      // An explicit sequence number bypasses the queue
+      const managed = options.sequenceNumber === undefined;
+
+      const submit = async (sequenceNumber: bigint) => {
+        if (simulate) {
+          let result;
+          try {
+            result = await simulateTransaction(
+              moduleAddress,
+              moduleName,
+              functionName,
+              args,
+              typeArgs,
+              { ...options, sequenceNumber }
+            );
+          } catch (error) {
+            throw new SimulationError(
+              `Could not simulate transaction: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+          if (!result.success) {
+            throw new SimulationError(describeSimulationFailure(result), result);
+          }
+        }
+
+        await ensureNetwork(adapter);
+
+        const hash = await adapter.sendRawTransaction({
+          sender,
+          moduleAddress,
+          moduleName,
+          functionName,
+          typeArgs,
+          args,
+          chainId: network.chainId,
+          ...options,
+          sequenceNumber,
+        });
+        if (!hash) {
+          if (managed) sequenceNumbers.release(sender, sequenceNumber, network);
+          return hash;
+        }
+
+        tracker
+          .track({
+            hash,
+            sender,
+            function: `${moduleAddress}::${moduleName}::${functionName}`,
+            typeArgs,
+            encodedArguments: args.map((arg) => HexString.fromUint8Array(arg).hex()),
+            chainId: network.chainId,
+            expiresAt: Number(options.expirationTimestampSecs) * 1000,
+          })
+          .then((transaction) => {
+            if (!managed) return;
+            // Executed and failed transactions both use up their sequence number
+            if (transaction.status === 'expired') {
+              sequenceNumbers.release(sender, sequenceNumber, network);
+            } else {
+              sequenceNumbers.confirm(sender, sequenceNumber, network);
+            }
+          })
+          .catch((error) => console.error('Transaction tracking error:', error));
+        return hash;
+      };
+
+      // Queued per account so parallel sends get consecutive sequence numbers
+      const txHash = managed
+        ? await sequenceNumbers.enqueue(sender, network, submit)
+        : await submit(options.sequenceNumber!);
+
+      return txHash;
+    } catch (error) {
+      console.error('Send raw transaction error:', error);
+      throw error;
+    }
+  };
+
+  // Prompts the wallet and verifies the returned signature locally
+  const requestSignature = async (
+    adapter: WalletAdapter,
+    message: string,
+    nonce: string
+  ) => {
+    if (!adapter.capabilities.signMessage) {
+      throw new Error('Message signing not supported by current wallet');
+    }
+
+    const hexMessage = '0x' + Buffer.from(message, 'utf8').toString('hex');
+
+    const response = await adapter.signMessage({
+      message: hexMessage,
+      nonce,
+      chainId: state.network.chainId,
+    });
+
+    const { publicKey, signature } = response;
+    const verified = nacl.sign.detached.verify(
+      new TextEncoder().encode(message),
+      Uint8Array.from(Buffer.from(signature.slice(2), 'hex')),
+      Uint8Array.from(Buffer.from(publicKey.slice(2), 'hex'))
+    );
+    if (verified && state.accounts[0]) {
+      setStoredPublicKey(state.accounts[0], publicKey);
+    }
+
+    return { ...response, verified };
+  };
+
+  // Exchanges a signed nonce for a session token
+  const requestToken = async (address: string, signature: unknown, nonce: string) => {
+    const response = await apiFetch('/api/auth/create-jwt', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        address,
+        signature,
+        nonce,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Authentication failed');
+    }
+
+    const { token } = await response.json();
+    return token as string;
+  };
+
+  const signMessage = async (
+    message: string,
+    nonce = '12345',
+    account?: string,
+    forceSign = false
+  ) => {
+    const adapter = getAdapter();
+    if (!adapter.isInstalled()) return;
+
+    if (!adapter.capabilities.signMessage) {
+      throw new Error('Message signing not supported by current wallet');
+    }
+
+    if (!state.accounts.length && !account) return;
+    // Don't stack a prompt on top of a pending connect or sign-in
+    if (isWalletBusy(state.status) && !forceSign) {
+      return;
+    }
+
+    return requestSignature(adapter, message, nonce);
+  };
+
+  const signIn = async () => {
+    if (!state.walletCapabilities.signMessage) {
+      // For wallets without signing capability, skip token revalidation
+      return true;
+    }
+
+    const adapter = getAdapter();
+    const account = state.accounts[0];
+    if (
+      adapter.isInstalled() &&
+      account &&
+      setStatus({ state: 'authenticating', wallet: adapter.type, account })
+    ) {
+      try {
+        const nonce = await apiFetch('/api/auth/nonce').then((r) => r.text());
+        const signature = await requestSignature(
+          adapter,
+          'Sign message to revalidate login to multiwallet. By signing this message, you agree to the Terms of Service and Privacy Policy of multiwallet at https://multiwallet.trade/tos',
+          nonce
+        );
+
+        const newToken = await requestToken(account, signature, nonce);
+        localStorage.setItem('authToken', newToken);
+        document.cookie = `authToken=${newToken}; path=/; max-age=${
+          60 * 60 * 24
+        }; SameSite=Lax; ${
+          window.location.protocol === 'https:' ? 'Secure;' : ''
+        } HttpOnly`;
+
+        setStatus({ state: 'authenticated', wallet: adapter.type, account });
+
+        dispatchWalletEvent(WALLET_EVENTS.CONNECTED, {
+          token: newToken,
+          timestamp: Date.now(),
+          account,
+        });
+      } catch (error) {
+        failStatus(error);
+        throw error;
+      }
+    }
+  };
+
+  const checkAndRevalidateToken = async () => {
+    if (!state.walletCapabilities.tokenRevalidation) {
+      return true;
+    }
+
+    try {
+      const response = await apiFetch('/api/auth/check', {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const adapter = getAdapter();
+        const account = state.accounts[0];
+        // Only one revalidation prompt at a time
+        if (
+          adapter.isInstalled() &&
+          account &&
+          setStatus({ state: 'authenticating', wallet: adapter.type, account })
+        ) {
+          try {
+            const nonce = await apiFetch('/api/auth/nonce').then((r) => r.text());
+            const signature = await requestSignature(
+              adapter,
+              'Token Expiry: Sign message to revalidate login to multiwallet. By signing this message, you agree to the Terms of Service and Privacy Policy of multiwallet at https://multiwallet.trade/tos',
+              nonce
+            );
+
+            const token = await requestToken(account, signature, nonce);
+
+            await apiFetch('/api/auth/wallet-login', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ token }),
+            });
+          } catch (error) {
+            failStatus(error);
+            throw error;
+          }
+
+          setStatus({ state: 'authenticated', wallet: adapter.type, account });
+
+          dispatchWalletEvent(WALLET_EVENTS.CONNECTED, {
+            timestamp: Date.now(),
+            account,
+          });
+
+          return true;
+        }
+        return false;
+      }
+
+      // A valid session cookie means the connected account is signed in
+      const current = state.status;
+      if (current.state === 'connected') {
+        setStatus({ ...current, state: 'authenticated' });
+      }
+      return true;
+    } catch (error) {
+      console.error('Token validation error:', error);
+      return false;
+    }
+  };
+
+  const authFetch = async (url: string, options: RequestInit = {}) => {
+    if (state.walletCapabilities.tokenRevalidation) {
+      const isValid = await checkAndRevalidateToken();
+      if (!isValid) {
+        throw new Error('Authentication failed');
+      }
+    }
+
+    return apiFetch(url, {
+      ...options,
+      credentials: 'include',
+      headers: {
+        ...options.headers,
+      },
+    });
+  };
+
+  const switchToChain = async (chainId?: string) => {
+    if (!state.walletCapabilities.networkSwitching) {
+      throw new Error('Network switching not supported by current wallet');
+    }
+
+    const adapter = getAdapter();
+    const targetChainId = chainId || state.selectedChainId;
+    if (targetChainId && adapter.isInstalled()) {
+      await adapter.switchNetwork(targetChainId);
+      await getNetworkData(adapter);
+    }
+  };
+
+  const getAvailableWallets = (): AvailableWallet[] => {
+    return getWalletAdapters().map((adapter) => ({
+      type: adapter.type,
+      name: adapter.name,
+      isInstalled: adapter.isInstalled(),
+      capabilities: adapter.capabilities,
+    }));
+  };
+
+  // Re-authenticates after the user switches accounts inside the wallet
+  const handleAccountsChanged = async (adapter: WalletAdapter) => {
+    // A pending connect or sign-in picks up the new account itself
+    if (isWalletBusy(state.status)) return;
+
+    const authCheckResponse = await apiFetch('/api/auth/check', {
+      credentials: 'include',
+    });
+    if (authCheckResponse.ok) {
+      await apiFetch('/api/auth/wallet-logout', { method: 'POST' });
+    }
+
+    const responseAcc = await adapter.getAccounts();
+    if (responseAcc.length) {
+      const account = responseAcc[0];
+      setState({ accounts: responseAcc });
+      setStatus({ state: 'connected', wallet: adapter.type, account });
+      if (!setStatus({ state: 'authenticating', wallet: adapter.type, account })) {
+        return;
+      }
+
+      try {
+        const nonce = await apiFetch('/api/auth/nonce').then((r) =>
+          r.text()
+        );
+        const signature = await requestSignature(
+          adapter,
+          'Sign this message to login to multiwallet. By signing this message, you agree to the Terms of Service and Privacy Policy of multiwallet at https://multiwallet.trade/tos',
+          nonce
+        );
+
+        const token = await requestToken(account, signature, nonce);
+
+        await apiFetch('/api/auth/wallet-login', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+
+        setStatus({ state: 'authenticated', wallet: adapter.type, account });
+
+        dispatchWalletEvent(WALLET_EVENTS.CONNECTED, {
+          timestamp: Date.now(),
+          account,
+        });
+
+        await updateAccounts(adapter);
+      } catch (error) {
+        console.error('Account switch auth error:', error);
+        failStatus(error);
+        toast('Authentication Failed', {
+          description: 'Failed to authenticate new account',
+        });
+      }
+    } else {
+      endSession();
+    }
+  };
+
+  // Event handling for wallets that push events
+  const bindAdapterEvents = () => {
+    unsubscribeAdapter?.();
+    unsubscribeAdapter = null;
+
+    const adapter = getAdapter();
+    if (!adapter.capabilities.eventListeners || !adapter.subscribe) return;
+
+    unsubscribeAdapter = adapter.subscribe((event: WalletAdapterEvent) => {
+      switch (event.type) {
+        case 'installed': {
+          checkIsExtensionInstalled();
+          break;
+        }
+        case 'accountsChanged': {
+          handleAccountsChanged(adapter);
+          break;
+        }
+        case 'disconnected': {
+          endSession();
+          break;
+        }
+        case 'windowClosed': {
+          // Closing the wallet popup abandons any pending approval
+          if (isWalletBusy(state.status)) {
+            failStatus(new Error('Request rejected'));
+          }
+          break;
+        }
+      }
+    });
+    checkIsExtensionInstalled();
+  };
+
+  // Provider detection for the selected wallet
+  const detectWallet = () => {
+    detectionTimers.forEach(clearInterval);
+    detectionTimers = [];
+
+    setStatus({ state: 'detecting', wallet: state.selectedWallet });
+    const wasInstalled = state.isExtensionInstalled;
+    checkExtensionInstalled().then((isInstalled) => {
+      // A wallet found earlier doesn't reload its accounts on its own
+      if (isInstalled && wasInstalled) {
+        updateAccounts();
+      }
+    });
+    pollExtension(1000);
+    bindAdapterEvents();
+  };
+
+  const updateSelectedWallet = (walletType: WalletType) => {
+    const changed = walletType !== state.selectedWallet;
+    // The pending connect or sign-in belongs to the selected wallet
+    if (changed && isWalletBusy(state.status)) {
+      console.warn(`Ignored switch to ${walletType} while the wallet is ${state.status.state}`);
+      return;
+    }
+    setState({
+      selectedWallet: walletType,
+      walletCapabilities: getWalletAdapter(walletType).capabilities,
+      isExtensionInstalled: changed ? false : state.isExtensionInstalled,
+    });
+    setStoredWalletType(walletType);
+
+    if (changed && mountCount > 0) {
+      detectWallet();
+    }
+  };
+
+  const start = () => {
+    detectWallet();
+
+    // Mirror network selection made anywhere in the app
+    const unsubscribeNetwork = subscribeActiveNetwork((network) => {
+      setState({ network });
+    });
+    if (state.network !== getActiveNetwork()) {
+      setState({ network: getActiveNetwork() });
+    }
+
+    // Balance follows the account and network, settled transactions and a slow poll
+    const unsubscribeBalance = balanceWatcher.subscribe(() => {
+      updateBalance();
+    });
+    let balanceAccount = state.accounts[0];
+    let balanceNetwork = state.network.id;
+    const unsubscribeBalanceScope = subscribe(() => {
+      const account = state.accounts[0];
+      const network = state.network.id;
+      if (account === balanceAccount && network === balanceNetwork) return;
+
+      const reason = network === balanceNetwork ? 'account' : 'network';
+      balanceAccount = account;
+      balanceNetwork = network;
+      if (account) balanceWatcher.refresh(reason);
+    });
+
+    // Swap the transaction history when the account or network changes
+    const unsubscribeHistory = subscribe(() => {
+      loadTransactionHistory();
+    });
+    loadTransactionHistory();
+
+    // Token revalidation
+    const checkInterval = setInterval(() => {
+      if (state.accounts.length > 0 && state.walletCapabilities.tokenRevalidation) {
+        checkAndRevalidateToken();
+      }
+    }, 86400000); // Check every day
+
+    return () => {
+      unsubscribeNetwork();
+      unsubscribeBalance();
+      unsubscribeBalanceScope();
+      unsubscribeHistory();
+      clearInterval(checkInterval);
+      detectionTimers.forEach(clearInterval);
+      detectionTimers = [];
+      unsubscribeAdapter?.();
+      unsubscribeAdapter = null;
+    };
+  };
+
+  // Starts detection, wallet event listeners and token revalidation while at
+  // least one consumer is mounted. Returns the matching release function.
+  const mount = () => {
+    mountCount += 1;
+    if (mountCount === 1) {
+      teardown = start();
+    }
+
+    return () => {
+      mountCount -= 1;
+      if (mountCount === 0) {
+        teardown?.();
+        teardown = null;
+      }
+    };
+  };
+
+  // RPC client the store uses for a network, for reads made on its behalf (balances)
+  const getClient = (network: SupraNetwork = state.network) => rpcClient(network);
+
+  return {
+    getSnapshot,
+    getServerSnapshot,
+    subscribe,
+    mount,
+    getClient,
+
+    getCurrentProvider,
+    getAvailableWallets,
+    updateSelectedWallet,
+    connectWallet,
+    disconnectWallet,
+    dismissError,
+    updateAccounts,
+    updateBalance,
+    subscribeBalance: balanceWatcher.subscribe,
+    sendRawTransaction,
+    simulateTransaction,
+    callView,
+    waitForTransaction,
+    getTransactionHistory,
+    refreshTransactionHistory,
+    exportTransactions,
+    signMessage,
+    setSelectedChainId,
+    setNetwork,
+    switchToChain,
+    authFetch,
+    checkAndRevalidateToken,
+    signIn,
+  };
+}
+
+export type WalletStore = ReturnType<typeof createWalletStore>;
+
+// Shared wallet session used by the app
+export const walletStore = createWalletStore();
@@ -0,0 +1,56 @@
+// Helpers shared by the ABI scripts: loading lib/ TypeScript files and the ABIs in lib/abis
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+export const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+export const abisDir = join(root, 'lib', 'abis');
+
+export const pascalCase = (name) =>
+  name
+    .split('_')
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+
+export const camelCase = (name) => {
+  const pascal = pascalCase(name);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+};
+
+// Same as standardizeAddress in lib/utils.ts
+export const standardizeAddress = (address) =>
+  `0x${address.toLowerCase().replace(/^0x/, '').padStart(64, '0')}`;
+
+// Evaluates a self-contained lib/ TypeScript file (type-only imports) and returns its exports
+export function loadTsModule(file) {
+  const { outputText } = ts.transpileModule(readFileSync(file, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+  const module = { exports: {} };
+  const require = (id) => {
+    throw new Error(`${basename(file)} must only import types, found import of ${id}`);
+  };
+  new Function('exports', 'require', 'module', 'process', outputText)(
+    module.exports,
+    require,
+    module,
+    process
+  );
+  return module.exports;
+}
+
+// Every ModuleABI exported from lib/abis, sorted by file name
+export function loadStoredABIs() {
+  if (!existsSync(abisDir)) return [];
+
+  return readdirSync(abisDir)
+    .filter((file) => file.endsWith('.ts'))
+    .sort()
+    .flatMap((file) =>
+      Object.entries(loadTsModule(join(abisDir, file)))
+        .filter(([, value]) => Array.isArray(value?.exposed_functions))
+        .map(([exportName, abi]) => ({ file, exportName, abi }))
+    );
+}
@@ -0,0 +1,246 @@
+#!/usr/bin/env node
+/**
+ * Pulls module ABIs from a Supra RPC node into lib/abis and registers them in
+ * abiStorage (lib/abiStorage.ts), or checks the stored ones for drift.
+ *
+ * Usage:
+ *   npm run abis -- [--network testnet] [--rpc <url>] 0x1::coin 0x1::primary_fungible_store
+ *   npm run abis -- --check [--network mainnet] [0x1::supra_account ...]
+ *
+ * --network takes a network id from lib/networks.ts (default testnet), --rpc
+ * overrides its RPC URL. --check compares every stored ABI (or only the ones
+ * given) with the chain and exits with 1 when any of them differ.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  abisDir,
+  camelCase,
+  loadStoredABIs,
+  loadTsModule,
+  root,
+  standardizeAddress,
+} from './abiFiles.mjs';
+
+const abiStorageFile = join(root, 'lib', 'abiStorage.ts');
+
+function parseArgs(argv) {
+  const options = { network: 'testnet', rpc: null, check: false, modules: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--check') options.check = true;
+    else if (arg === '--network') options.network = argv[++i];
+    else if (arg === '--rpc') options.rpc = argv[++i];
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else options.modules.push(parseModuleId(arg));
+  }
+  return options;
+}
+
+function parseModuleId(id) {
+  const match = /^(0x[0-9a-fA-F]{1,64})::(\w+)$/.exec(id);
+  if (!match) {
+    throw new Error(`Invalid module ${id}, expected <address>::<module>`);
+  }
+  return { address: match[1], name: match[2] };
+}
+
+function getRpcUrl({ network, rpc }) {
+  if (rpc) return rpc.replace(/\/+$/, '');
+
+  const { getNetwork } = loadTsModule(join(root, 'lib', 'networks.ts'));
+  return getNetwork(network).rpcUrls[0];
+}
+
+async function fetchABI(rpcUrl, { address, name }) {
+  const response = await fetch(`${rpcUrl}/rpc/v3/accounts/${address}/modules/${name}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${address}::${name}: ${response.status} ${response.statusText}`);
+  }
+  const body = await response.json();
+  if (!body?.abi?.exposed_functions) {
+    throw new Error(`No ABI returned for ${address}::${name}`);
+  }
+  return body.abi;
+}
+
+const MAX_LINE = 80;
+const toKey = (key) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key));
+
+// Single-line source of a value, as in ["address", "u64"] or { name: "value", type: "u64" }
+function toInlineSource(value) {
+  if (Array.isArray(value)) return `[${value.map(toInlineSource).join(', ')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (!entries.length) return '{}';
+    return `{ ${entries.map(([key, item]) => `${toKey(key)}: ${toInlineSource(item)}`).join(', ')} }`;
+  }
+  return JSON.stringify(value);
+}
+
+// TypeScript source for a value, laid out like the hand-written ABI files: values
+// stay on one line when it fits, otherwise one item per line. `lead` is the
+// length of the line before the value
+function toSource(value, indent = '', lead = indent.length) {
+  const inline = toInlineSource(value);
+  if (!value || typeof value !== 'object' || lead + inline.length + 1 <= MAX_LINE) {
+    return inline;
+  }
+
+  const next = `${indent}  `;
+  if (Array.isArray(value)) {
+    return `[\n${value.map((item) => `${next}${toSource(item, next)},`).join('\n')}\n${indent}]`;
+  }
+  const lines = Object.entries(value).map(([key, item]) => {
+    const prefix = `${next}${toKey(key)}: `;
+    return `${prefix}${toSource(item, next, prefix.length)},`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function writeABIFile(abi) {
+  const file = `${abi.name}.ts`;
+  const existing = loadStoredABIs().find((stored) => stored.file === file);
+  if (existing && standardizeAddress(existing.abi.address) !== standardizeAddress(abi.address)) {
+    throw new Error(
+      `lib/abis/${file} already holds ${existing.abi.address}::${existing.abi.name}, not ${abi.address}::${abi.name}`
+    );
+  }
+
+  const exportName = `${camelCase(abi.name)}ABI`;
+  // A full lead keeps the top-level object on multiple lines
+  const source = toSource(abi, '', MAX_LINE);
+  mkdirSync(abisDir, { recursive: true });
+  writeFileSync(
+    join(abisDir, file),
+    `import { type ModuleABI } from "../abiStorage";\n\nexport const ${exportName}: ModuleABI = ${source};\n`
+  );
+  return file;
+}
+
+// Rewrites the lib/abis imports and the abiStorage object from the files in lib/abis
+function registerABIs() {
+  const stored = loadStoredABIs();
+  const byAddress = new Map();
+  stored.forEach((entry) => {
+    const key = standardizeAddress(entry.abi.address);
+    byAddress.set(key, [...(byAddress.get(key) ?? []), entry]);
+  });
+
+  const imports = stored.map(
+    ({ file, exportName }) => `import { ${exportName} } from "./abis/${file.replace(/\.ts$/, '')}";`
+  );
+  const registry = Array.from(byAddress.values())
+    .map(
+      (entries) =>
+        `  [standardizeAddress("${entries[0].abi.address}")]: {\n` +
+        entries.map(({ abi, exportName }) => `    ${abi.name}: ${exportName},\n`).join('') +
+        '  },'
+    )
+    .join('\n');
+
+  const source = readFileSync(abiStorageFile, 'utf8')
+    .replace(/^import \{ \w+ \} from "\.\/abis\/\w+";\n/gm, '')
+    .replace(/export const abiStorage: ABIStorage = \{[\s\S]*?\n\};/, () =>
+      `export const abiStorage: ABIStorage = {\n${registry}\n};`
+    );
+  writeFileSync(abiStorageFile, `${imports.join('\n')}\n${source}`);
+}
+
+// JSON with object keys sorted, so key order doesn't count as a change
+const stableStringify = (value) =>
+  JSON.stringify(value, (_, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+
+const byName = (a, b) => a.name.localeCompare(b.name);
+
+// Stable JSON of an ABI, list order doesn't count as drift either
+const normalize = (abi) =>
+  stableStringify({
+    ...abi,
+    address: standardizeAddress(abi.address),
+    friends: [...(abi.friends ?? [])].sort(),
+    exposed_functions: [...abi.exposed_functions].sort(byName),
+    structs: [...(abi.structs ?? [])].sort(byName),
+  });
+
+// Names of the functions and structs that were added, removed or changed
+function describeDrift(stored, onChain) {
+  const changes = [];
+  for (const key of ['exposed_functions', 'structs']) {
+    const before = new Map((stored[key] ?? []).map((item) => [item.name, stableStringify(item)]));
+    const after = new Map((onChain[key] ?? []).map((item) => [item.name, stableStringify(item)]));
+    const kind = key === 'structs' ? 'struct' : 'function';
+
+    after.forEach((item, name) => {
+      if (!before.has(name)) changes.push(`+ ${kind} ${name}`);
+      else if (before.get(name) !== item) changes.push(`~ ${kind} ${name}`);
+    });
+    before.forEach((_, name) => {
+      if (!after.has(name)) changes.push(`- ${kind} ${name}`);
+    });
+  }
+  return changes.length ? changes : ['~ module metadata'];
+}
+
+async function checkDrift(rpcUrl, modules) {
+  const isModule = (abi, { address, name }) =>
+    abi.name === name && standardizeAddress(abi.address) === standardizeAddress(address);
+  const stored = loadStoredABIs().filter(
+    ({ abi }) => !modules.length || modules.some((module) => isModule(abi, module))
+  );
+
+  modules
+    .filter((module) => !stored.some(({ abi }) => isModule(abi, module)))
+    .forEach(({ address, name }) => {
+      console.warn(`missing ${address}::${name} is not stored in lib/abis`);
+      process.exitCode = 1;
+    });
+
+  let drifted = 0;
+  for (const { file, abi } of stored) {
+    const id = `${abi.address}::${abi.name}`;
+    const onChain = await fetchABI(rpcUrl, abi);
+    if (normalize(abi) === normalize(onChain)) {
+      console.log(`ok      ${id} (lib/abis/${file})`);
+      continue;
+    }
+    drifted++;
+    console.log(`drifted ${id} (lib/abis/${file})`);
+    describeDrift(abi, onChain).forEach((change) => console.log(`        ${change}`));
+  }
+
+  if (drifted) {
+    console.log(`\n${drifted} stored ABI(s) differ from ${rpcUrl}, rerun without --check to update them`);
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const rpcUrl = getRpcUrl(options);
+
+  if (options.check) {
+    await checkDrift(rpcUrl, options.modules);
+    return;
+  }
+  if (!options.modules.length) {
+    throw new Error('No modules given, e.g. npm run abis -- 0x1::coin');
+  }
+
+  for (const module of options.modules) {
+    const abi = await fetchABI(rpcUrl, module);
+    const file = writeABIFile(abi);
+    console.log(`Wrote lib/abis/${file} (${abi.address}::${abi.name})`);
+  }
+  registerABIs();
+  console.log('Registered in lib/abiStorage.ts, run npm run codegen to update lib/clients');
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+/**
+ * Generates a typed client in lib/clients for every ModuleABI exported from
+ * lib/abis. Entry functions become methods that serialize their arguments from
+ * the ABI and go through sendRawTransaction; view functions go through callView.
+ *
+ * Move ABIs don't carry parameter names, so they are read from
+ * scripts/abi-param-names.json ("0x1::module::function": ["to", "amount"]) and
+ * fall back to arg0, arg1, ...
+ *
+ * Usage: npm run codegen
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { camelCase, loadStoredABIs, pascalCase, root } from './abiFiles.mjs';
+
+const clientsDir = join(root, 'lib', 'clients');
+const paramNames = JSON.parse(readFileSync(join(root, 'scripts', 'abi-param-names.json'), 'utf8'));
+
+const OPTION_PREFIX = '0x1::option::Option<';
+const OBJECT_PREFIX = '0x1::object::Object';
+const VECTOR_PREFIX = 'vector<';
+
+const inner = (type, prefix) => type.slice(prefix.length, -1).trim();
+
+// TypeScript type accepted for an argument of the given Move type
+function toInputType(moveType, used) {
+  const type = moveType.trim();
+  if (type.startsWith(OPTION_PREFIX)) return `${toInputType(inner(type, OPTION_PREFIX), used)} | null`;
+  if (type.startsWith(VECTOR_PREFIX)) {
+    const item = inner(type, VECTOR_PREFIX);
+    if (item === 'u8') {
+      used.add('MoveBytes');
+      return 'MoveBytes';
+    }
+    return `Array<${toInputType(item, used)}>`;
+  }
+  if (type.startsWith(OBJECT_PREFIX) || type === 'address') {
+    used.add('MoveAddress');
+    return 'MoveAddress';
+  }
+  switch (type) {
+    case 'bool':
+      return 'boolean';
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return 'number';
+    case 'u64':
+    case 'u128':
+    case 'u256':
+      used.add('MoveUint');
+      return 'MoveUint';
+    case '0x1::string::String':
+      return 'string';
+    default:
+      // Structs are plain objects keyed by field name, generic parameters stay unknown
+      if (/^0x[0-9a-fA-F]+::\w+::\w+/.test(type)) {
+        used.add('MoveStruct');
+        return 'MoveStruct';
+      }
+      return 'unknown';
+  }
+}
+
+// TypeScript type callView decodes a return value of the given Move type to
+function toReturnType(moveType) {
+  const type = moveType.trim();
+  if (type.startsWith(OPTION_PREFIX)) return `${toReturnType(inner(type, OPTION_PREFIX))} | null`;
+  if (type.startsWith(VECTOR_PREFIX)) {
+    const item = inner(type, VECTOR_PREFIX);
+    return item === 'u8' ? 'Uint8Array' : `Array<${toReturnType(item)}>`;
+  }
+  if (type.startsWith(OBJECT_PREFIX) || type === 'address' || type === '0x1::string::String') {
+    return 'string';
+  }
+  switch (type) {
+    case 'bool':
+      return 'boolean';
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return 'number';
+    case 'u64':
+    case 'u128':
+    case 'u256':
+      return 'bigint';
+    default:
+      return 'unknown';
+  }
+}
+
+const isSigner = (type) => ['signer', '&signer'].includes(type.trim());
+
+function generateClient(sourceFile, exportName, abi) {
+  const modulePascal = pascalCase(abi.name);
+  const usedTypes = new Set();
+  const interfaces = [];
+  const methods = [];
+  let hasEntry = false;
+  let hasView = false;
+
+  const functions = abi.exposed_functions
+    .filter((func) => func.is_entry || func.is_view)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const func of functions) {
+    const id = `${abi.address}::${abi.name}::${func.name}`;
+    const params = func.params.filter((param) => !isSigner(param));
+    const names = paramNames[id] ?? [];
+    const argNames = params.map((_, index) => names[index] ?? `arg${index}`);
+    const genericParams = func.generic_type_params ?? [];
+    const genericCount = genericParams.length;
+    const argsName = `${modulePascal}${pascalCase(func.name)}Args`;
+    const hasArgs = params.length > 0 || genericCount > 0;
+    const signature = `${func.name}${genericCount ? `<${genericParams.map((_, i) => `T${i}`).join(', ')}>` : ''}(${func.params.join(', ')})`;
+
+    if (hasArgs) {
+      const fields = [];
+      if (genericCount) {
+        fields.push(`  typeArgs: [${Array(genericCount).fill('string').join(', ')}];`);
+      }
+      params.forEach((param, index) => {
+        fields.push(`  // ${param}`);
+        fields.push(`  ${argNames[index]}: ${toInputType(param, usedTypes)};`);
+      });
+      interfaces.push(`export interface ${argsName} {\n${fields.join('\n')}\n}`);
+    }
+
+    const destructured = [genericCount ? 'typeArgs' : null, ...argNames].filter(Boolean);
+    const argsParam = hasArgs ? `{ ${destructured.join(', ')} }: ${argsName}` : '';
+    const typeArgs = genericCount ? 'typeArgs' : '[]';
+    const args = `[${argNames.join(', ')}]`;
+    const methodName = camelCase(func.name);
+
+    if (func.is_entry) {
+      hasEntry = true;
+      const callParams = [argsParam, 'options?: SendTransactionOptions'].filter(Boolean).join(', ');
+      methods.push(
+        `    /** Entry function ${signature} */\n` +
+          `    ${methodName}: (${callParams}) =>\n` +
+          `      submitEntryFunction(target, ${exportName}, '${func.name}', ${typeArgs}, ${args}, options),`
+      );
+    } else {
+      hasView = true;
+      const returns = `[${(func.return ?? []).map(toReturnType).join(', ')}]`;
+      methods.push(
+        `    /** View function ${signature}: ${(func.return ?? []).join(', ') || '()'} */\n` +
+          `    ${methodName}: (${argsParam}) =>\n` +
+          `      callViewFunction<${returns}>(target, ${exportName}, '${func.name}', ${typeArgs}, ${args}),`
+      );
+    }
+  }
+
+  const clientImports = [
+    hasView ? 'callViewFunction' : null,
+    hasEntry ? 'submitEntryFunction' : null,
+    'type ModuleClientTarget',
+    ...Array.from(usedTypes)
+      .sort()
+      .map((name) => `type ${name}`),
+  ].filter(Boolean);
+
+  return [
+    `// Generated by scripts/generate-abi-clients.mjs from lib/abis/${sourceFile}. Do not edit.`,
+    `import { ${exportName} } from '../abis/${basename(sourceFile, '.ts')}';`,
+    `import {\n${clientImports.map((name) => `  ${name},`).join('\n')}\n} from '../abiClient';`,
+    hasEntry ? `import type { SendTransactionOptions } from '../walletStore';` : null,
+    '',
+    ...interfaces.flatMap((declaration) => [declaration, '']),
+    `/** Typed client for ${abi.address}::${abi.name} */`,
+    `export function create${modulePascal}Client(target: ModuleClientTarget) {`,
+    '  return {',
+    methods.join('\n'),
+    '  };',
+    '}',
+    '',
+    `export type ${modulePascal}Client = ReturnType<typeof create${modulePascal}Client>;`,
+    '',
+  ]
+    .filter((line) => line !== null)
+    .join('\n');
+}
+
+mkdirSync(clientsDir, { recursive: true });
+
+for (const { file, exportName, abi } of loadStoredABIs()) {
+  // Named after the ABI file so modules with the same name at different addresses don't clash
+  writeFileSync(join(clientsDir, file), generateClient(file, exportName, abi));
+  console.log(`Generated lib/clients/${file} from ${exportName}`);
+}
@@ -0,0 +1,168 @@
+/**
+ * Runs the wallet store end to end in Node against the mock wallet and its
+ * in-memory chain: connect and sign in through the app's own /api/auth route
+ * handlers, two back-to-back transfers through the generated supra_account
+ * client, and tracking until both execute. No browser extension, RPC node or
+ * Next.js server is involved.
+ *
+ * Usage:
+ *   npm run mock:flow
+ *
+ * Exits with 1 when any step doesn't end the way a real wallet would.
+ */
+import assert from 'node:assert/strict';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { RequestStore } from 'next/dist/client/components/request-async-storage.external';
+import { NextRequest } from 'next/server';
+import { SupraAccount } from 'supra-l1-sdk-core';
+import { createMockWallet } from '../lib/adapters/mock';
+import { getBalances } from '../lib/balances';
+import { createSupraAccountClient } from '../lib/clients/supra_account';
+import { getActiveNetwork, type NetworkId } from '../lib/networks';
+import { createSupraRpcClient, type SupraRpcClient } from '../lib/supraRpcClient';
+import { getNativeToken } from '../lib/tokenRegistry';
+import { registerWalletAdapter } from '../lib/walletRegistry';
+import { createWalletStore } from '../lib/walletStore';
+
+// lib/auth refuses to load without a secret
+if (!process.env.JWT_SECRET) {
+  process.env.JWT_SECRET = 'mock-wallet-flow-secret';
+}
+// Next's request scope needs the global its server installs, set before next/headers loads
+Object.assign(globalThis, { AsyncLocalStorage });
+
+const network = getActiveNetwork();
+const mock = createMockWallet({ type: 'mock', chainId: network.chainId });
+registerWalletAdapter(mock.adapter);
+mock.chain.setBalance(mock.activeAccount.address().hex(), BigInt(5 * 10 ** network.decimals));
+
+type RouteHandler = (request: Request) => Promise<Response>;
+
+// Cookies set by the route handlers, sent back like a browser would
+const cookieJar = new Map<string, string>();
+// Tokens handed out by create-jwt
+const issuedTokens: string[] = [];
+
+const storeCookies = (response: Response) => {
+  response.headers.getSetCookie().forEach((header) => {
+    const [pair] = header.split(';');
+    const [name, ...value] = pair.split('=');
+    if (value.join('=')) cookieJar.set(name.trim(), value.join('='));
+    else cookieJar.delete(name.trim());
+  });
+};
+
+// Answers /api/auth/* with the app's route handlers
+async function createAuthFetch() {
+  const { requestAsyncStorage } = await import(
+    'next/dist/client/components/request-async-storage.external'
+  );
+  // Runs a route handler in a request scope, so next/headers' cookies() reads the jar
+  const callRoute = (handler: RouteHandler, request: NextRequest) =>
+    requestAsyncStorage.run(
+      {
+        headers: request.headers,
+        cookies: request.cookies,
+        mutableCookies: request.cookies,
+      } as unknown as RequestStore,
+      () => handler(request)
+    );
+
+  const [nonce, createJwt, walletLogin, walletLogout, check] = await Promise.all([
+    import('../app/api/auth/nonce/route'),
+    import('../app/api/auth/create-jwt/route'),
+    import('../app/api/auth/wallet-login/route'),
+    import('../app/api/auth/wallet-logout/route'),
+    import('../app/api/auth/check/route'),
+  ]);
+  const routes: Record<string, RouteHandler> = {
+    'GET /api/auth/nonce': nonce.GET,
+    'POST /api/auth/create-jwt': createJwt.POST,
+    'POST /api/auth/wallet-login': walletLogin.POST,
+    'POST /api/auth/wallet-logout': walletLogout.POST,
+    'GET /api/auth/check': check.GET,
+  };
+
+  return async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input), 'http://localhost');
+    const method = init?.method ?? 'GET';
+    const handler = routes[`${method} ${url.pathname}`];
+    if (!handler) {
+      throw new Error(`No route for ${method} ${url.pathname}`);
+    }
+
+    const headers = new Headers(init?.headers);
+    const cookies = Array.from(cookieJar, ([name, value]) => `${name}=${value}`).join('; ');
+    if (cookies) headers.set('cookie', cookies);
+
+    const response = await callRoute(handler, new NextRequest(url, { method, headers, body: init?.body }));
+    storeCookies(response);
+    if (url.pathname === '/api/auth/create-jwt' && response.ok) {
+      const { token } = await response.clone().json();
+      issuedTokens.push(token);
+    }
+    return response;
+  };
+}
+
+// One RPC client per network, answered by the mock chain
+const clients = new Map<NetworkId, SupraRpcClient>();
+const rpcClient = (target: typeof network) => {
+  let client = clients.get(target.id);
+  if (!client) {
+    client = createSupraRpcClient({ network: target, fetch: mock.chain.fetch, retries: 0 });
+    clients.set(target.id, client);
+  }
+  return client;
+};
+
+async function main() {
+  const { verifyToken } = await import('../lib/auth');
+  const store = createWalletStore({ rpcClient, fetch: await createAuthFetch() });
+
+  assert.equal(await store.connectWallet('mock'), true, 'connect and sign-in');
+  const { status, accounts, balance } = store.getSnapshot();
+  assert.equal(status.state, 'authenticated');
+
+  // create-jwt accepted the mock wallet's signature, and wallet-login set the session cookie
+  assert.equal(issuedTokens.length, 1, 'one token issued');
+  const session = await verifyToken(issuedTokens[0]);
+  assert.equal(session?.address, accounts[0], 'token for the signed-in account');
+  assert.equal(cookieJar.get('authToken'), issuedTokens[0], 'session cookie');
+  // The check route reads the cookie, so no new signature is asked for
+  assert.equal(await store.checkAndRevalidateToken(), true, 'session check');
+  assert.equal(issuedTokens.length, 1, 'no revalidation');
+  console.log(`Signed in as ${accounts[0]} with ${balance}`);
+
+  // Multi-asset balances are read through the store's client, so the mock chain answers
+  const [native] = await getBalances(accounts[0], { network, client: store.getClient() });
+  assert.equal(native.coinType, getNativeToken(network).id);
+  assert.equal(native.amount, mock.chain.getBalance(accounts[0]));
+
+  const supraAccount = createSupraAccountClient(store);
+  const recipient = new SupraAccount().address().hex();
+  const transfer = (amount: bigint) =>
+    supraAccount.transferCoins({ typeArgs: [getNativeToken(network).id], to: recipient, amount });
+
+  // Sent together, the queue hands out consecutive sequence numbers
+  const hashes = await Promise.all([transfer(BigInt(1000)), transfer(BigInt(2000))]);
+  for (const hash of hashes) {
+    assert.ok(hash, 'transaction hash');
+    const transaction = await store.waitForTransaction(hash, { timeout: 10000 });
+    assert.equal(transaction.status, 'executed');
+    console.log(`${transaction.function} ${hash} ${transaction.status}`);
+  }
+
+  const sent = mock.chain.getTransactions(accounts[0]);
+  assert.deepEqual(
+    sent.map((txn) => txn.sequenceNumber),
+    [BigInt(0), BigInt(1)]
+  );
+  assert.equal(store.getSnapshot().transactions.length, 2, 'history of the account');
+  console.log('Mock wallet flow passed');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,9 @@
+// The mock wallet's type, only known to the scripts (compiled with
+// scripts/tsconfig.json) so the app's WalletType doesn't include it
+export {};
+
+declare module '../lib/walletRegistry' {
+  interface RegisteredWallets {
+    mock: true;
+  }
+}